@@ -0,0 +1,78 @@
+/*
+ * BSD 3-Clause License
+ * Copyright (c) 2024, Ollie Killean
+ * License: https://github.com/knokbak/srp-auth
+ */
+
+// Benchmarks ClientSetup.init() and a full client and server handshake, for every group and algorithm.
+// Build first (`npm run build`), then run `node benchmark [--duration=<ms>] [--groups=b1024,b2048] [--algorithms=SHA-256,SHA3-512]`.
+// The inputs are fixed, so that results are only affected by the machine they are run on.
+
+const os = require('os');
+const { ClientSetup, ClientAuthenticate, ServerAuthenticate, Groups, Algorithm } = require('../dist');
+
+const args = Object.fromEntries(process.argv.slice(2).map((arg) => arg.replace(/^--/, '').split('=')));
+const duration = Number(args.duration ?? 1000);
+const groups = args.groups ? args.groups.split(',') : Object.keys(Groups);
+const algorithms = args.algorithms ? args.algorithms.split(',') : Object.values(Algorithm);
+
+const username = 'benchmark';
+const password = 'correct horse battery staple';
+const salt = new Uint8Array(24).fill(0x5a);
+
+async function measure (fn) {
+    // warm up, so that hashers and fixed-base tables are ready
+    await fn();
+
+    let count = 0;
+    const start = process.hrtime.bigint();
+    let elapsed = 0;
+    while (elapsed < duration || count < 3) {
+        await fn();
+        count++;
+        elapsed = Number(process.hrtime.bigint() - start) / 1e6;
+    }
+    return count / (elapsed / 1000);
+}
+
+async function setup (group, algorithm) {
+    await new ClientSetup({ username, password, salt, group, algorithm }).init();
+}
+
+async function handshake (group, algorithm, credentials) {
+    const client = new ClientAuthenticate({ username, password, group, algorithm });
+    const server = new ServerAuthenticate({ I: credentials.I, s: credentials.encoded.s, v: credentials.encoded.v, group, algorithm });
+
+    const { encoded: { A } } = await client.init();
+    const { encoded: { B, s } } = await server.init(A);
+    await client.exchange(B, s);
+    const { encoded: { M1 } } = await client.authenticate();
+    const { encoded: { M2 } } = await server.authenticate(M1);
+    await client.verifyServer(M2);
+}
+
+(async () => {
+    console.log(`Node.js ${process.version} on ${os.platform()} ${os.arch()}, ${os.cpus()[0]?.model ?? 'unknown CPU'}`);
+    console.log(`At least ${duration}ms per measurement\n`);
+    console.log('| Group       | Algorithm   | ClientSetup (OPS/s) | Handshake (OPS/s) |');
+    console.log('|-------------|-------------|---------------------|-------------------|');
+
+    for (const name of groups) {
+        const group = Groups[name];
+        if (!group) {
+            throw new Error(`Unknown group "${name}"`);
+        }
+
+        for (const algorithm of algorithms) {
+            const credentials = await new ClientSetup({ username, password, salt, group, algorithm }).init();
+            const setupOps = await measure(() => setup(group, algorithm));
+            const handshakeOps = await measure(() => handshake(group, algorithm, credentials));
+
+            const bits = `${name.slice(1)} bits`;
+            console.log(`| ${bits.padEnd(11)} | ${algorithm.padEnd(11)} | ${`${setupOps.toFixed(1)}/s`.padEnd(19)} | ${`${handshakeOps.toFixed(1)}/s`.padEnd(17)} |`);
+        }
+    }
+})().catch((err) => {
+    console.error(err);
+    process.exit(1);
+});
@@ -0,0 +1,303 @@
+#!/usr/bin/env node
+/*
+ * BSD 3-Clause License
+ * Copyright (c) 2024, Ollie Killean
+ * License: https://github.com/knokbak/srp-auth
+ */
+
+import { readFileSync } from 'fs';
+import { ClientAuthenticate } from './client/authenticate';
+import { ClientSetup } from './client/setup';
+import { ServerAuthenticate } from './server/authenticate';
+import { parseCredentials, serializeCredentials } from './server/record';
+import { parseDHParams } from './util/dhparams';
+import { ErrorCode, SRPError } from './util/error';
+import { fromRFC3526, Group, Groups, validateGroup } from './util/groups';
+import { Algorithm } from './util/hash';
+import { KDFParams, KDFPresets } from './util/kdf';
+import { powModFixed, toBigInt, toHex, toUint8Array } from './util/math';
+import { Normalization, normalizeIdentity, normalizePassword } from './util/normalize';
+import { computeK, computeX, Profile } from './util/profile';
+
+type Args = Record<string, string | undefined>;
+
+const USAGE = `Usage: srp-auth <command> [--option=value ...]
+
+Commands:
+  setup          Create I, s and v for a username and password
+                   --username, --password (or $SRP_PASSWORD), [--group=b2048], [--algorithm=SHA3-512],
+                   [--profile=legacy], [--kdf=none|argon2id|scrypt|pbkdf2], [--salt=<hex>],
+                   [--normalization=none|nfkc|saslprep|precis]
+  login          Run a client and server handshake locally, printing each intermediate value
+                   --username, --password (or $SRP_PASSWORD), and either --record=<credential record>,
+                   or --salt=<hex>, --verifier=<hex>, [--group], [--algorithm], [--profile], [--kdf], [--normalization]
+  verify-group   Check that a custom group is safe to use
+                   --file=<dhparam.pem>, or --g=<hex> and --N=<hex>; [--min-bits=2048], [--rounds=24]
+  bench          Time ClientSetup.init() for each group and algorithm
+                   [--duration=1000], [--groups=b1024,b2048], [--algorithms=SHA-256,SHA3-512]
+
+Groups can be given as a built-in group (b2048) or an RFC 3526 group (modp3072).`;
+
+async function setup (args: Args): Promise<void> {
+    const group = getGroup(args.group);
+    const algorithm = getAlgorithm(args.algorithm);
+    const profile = getProfile(args.profile);
+    const kdf = getKDF(args.kdf);
+    const normalization = getNormalization(args.normalization);
+
+    const result = await new ClientSetup({
+        username: required(args, 'username'),
+        password: getPassword(args),
+        salt: args.salt ? toUint8Array(args.salt) : undefined,
+        group,
+        algorithm,
+        profile,
+        kdf,
+        normalization,
+    }).init();
+
+    print({
+        I: result.I,
+        s: result.encoded.s,
+        v: result.encoded.v,
+        group: getGroupName(group),
+        algorithm,
+        profile,
+        kdf: result.kdf,
+        normalization,
+        // only the built-in groups can be stored in a credential record
+        record: isBuiltIn(group) ? serializeCredentials({ s: result.raw.s, v: result.raw.v, group, algorithm, profile, kdf, normalization }) : undefined,
+    });
+}
+
+async function login (args: Args): Promise<void> {
+    const username = required(args, 'username');
+    const password = getPassword(args);
+    const credentials = args.record ? parseCredentials(args.record) : {
+        s: toUint8Array(required(args, 'salt')),
+        v: toUint8Array(required(args, 'verifier')),
+        group: getGroup(args.group),
+        algorithm: getAlgorithm(args.algorithm),
+        profile: getProfile(args.profile),
+        kdf: getKDF(args.kdf),
+        normalization: getNormalization(args.normalization),
+    };
+    const { s, v, group, algorithm, profile, kdf } = credentials;
+    const normalization = credentials.normalization ?? Normalization.None;
+
+    // recompute what the client expects the verifier to be, so that a wrong password can be told apart from a protocol mismatch
+    const I = normalizeIdentity(username, normalization, true);
+    const p = normalizePassword(password, normalization, true);
+    const k = await computeK(profile, algorithm, group);
+    const x = await computeX(profile, algorithm, new TextEncoder().encode(I), new TextEncoder().encode(p), s, kdf);
+    const expectedV = powModFixed(group.g, x, group.N);
+
+    const client = new ClientAuthenticate({ username, password, group, allowUnvalidatedGroup: true, algorithm, profile, kdf, normalization });
+    const server = new ServerAuthenticate({ I, s, v, group, allowUnvalidatedGroup: true, algorithm, profile, kdf, normalization });
+
+    const values: Record<string, unknown> = {
+        group: getGroupName(group),
+        algorithm,
+        profile,
+        kdf,
+        normalization,
+        I,
+        s: toHex(s),
+        v: toHex(v),
+        k: toHex(k),
+        x: toHex(x),
+        'g ^ x % N': toHex(expectedV),
+        passwordMatches: expectedV === toBigInt(v),
+    };
+
+    let failure: unknown;
+    try {
+        const { encoded: { A } } = await client.init();
+        values.A = A;
+        const { encoded: { B } } = await server.init(A);
+        values.B = B;
+        await client.exchange(B, s, kdf, normalization);
+
+        // the CLI is part of this package, so it may read each side's private state for debugging
+        const clientState = client as unknown as { a: bigint; u: bigint; S: bigint; K: Uint8Array };
+        const serverState = server as unknown as { b: bigint; S: bigint; K: Uint8Array };
+        Object.assign(values, {
+            a: toHex(clientState.a),
+            b: toHex(serverState.b),
+            u: toHex(clientState.u),
+            'S (client)': toHex(clientState.S),
+            'S (server)': toHex(serverState.S),
+            'K (client)': toHex(clientState.K),
+            'K (server)': toHex(serverState.K),
+        });
+
+        const { encoded: { M1 } } = await client.authenticate();
+        values.M1 = M1;
+        const { encoded: { M2 } } = await server.authenticate(M1);
+        values.M2 = M2;
+        await client.verifyServer(M2);
+    } catch (err) {
+        failure = err;
+    }
+
+    values.result = failure ? describe(failure) : 'success';
+    print(values);
+
+    if (failure) {
+        process.exitCode = 1;
+    }
+}
+
+async function verifyGroup (args: Args): Promise<void> {
+    const group = args.file ? parseDHParams(new Uint8Array(readFileSync(args.file))) : {
+        g: toBigInt(toUint8Array(required(args, 'g'))),
+        N: toBigInt(toUint8Array(required(args, 'N'))),
+    };
+
+    try {
+        await validateGroup(group, {
+            minBits: args['min-bits'] ? Number(args['min-bits']) : undefined,
+            rounds: args.rounds ? Number(args.rounds) : undefined,
+        });
+        print({ bits: group.N.toString(2).length, g: toHex(group.g), valid: true });
+    } catch (err) {
+        print({ bits: group.N.toString(2).length, g: toHex(group.g), valid: false, reason: describe(err) });
+        process.exitCode = 1;
+    }
+}
+
+async function bench (args: Args): Promise<void> {
+    const duration = Number(args.duration ?? 1000);
+    const groups = args.groups ? args.groups.split(',') : Object.keys(Groups);
+    const algorithms = args.algorithms ? args.algorithms.split(',').map((name) => getAlgorithm(name)) : Object.values(Algorithm);
+    const salt = new Uint8Array(24).fill(0x5a);
+
+    console.log('| Group       | Algorithm   | ClientSetup (OPS/s) |');
+    console.log('|-------------|-------------|---------------------|');
+
+    for (const name of groups) {
+        const group = getGroup(name);
+        for (const algorithm of algorithms) {
+            const run = () => new ClientSetup({ username: 'benchmark', password: 'correct horse battery staple', salt, group, algorithm }).init();
+
+            // warm up, so that hashers and fixed-base tables are ready
+            await run();
+
+            let count = 0;
+            const start = Date.now();
+            while (Date.now() - start < duration || count < 3) {
+                await run();
+                count++;
+            }
+
+            const ops = count / ((Date.now() - start) / 1000);
+            console.log(`| ${getGroupName(group).padEnd(11)} | ${algorithm.padEnd(11)} | ${`${ops.toFixed(1)}/s`.padEnd(19)} |`);
+        }
+    }
+}
+
+function getGroup (name = 'b2048'): Group {
+    const builtIn = (Groups as Record<string, Group>)[name] ?? (Groups as Record<string, Group>)[`b${name}`];
+    return builtIn ?? fromRFC3526(name);
+}
+
+function getGroupName (group: Group): string {
+    for (const [name, known] of Object.entries(Groups)) {
+        if (known.g === group.g && known.N === group.N) {
+            return name;
+        }
+    }
+    return `${group.N.toString(2).length} bits`;
+}
+
+function isBuiltIn (group: Group): boolean {
+    return Object.values(Groups).some((known) => known.g === group.g && known.N === group.N);
+}
+
+function getAlgorithm (name: string = Algorithm.SHA3_512): Algorithm {
+    const algorithm = Object.values(Algorithm).find((value) => value.toLowerCase() === name.toLowerCase());
+    if (!algorithm) {
+        throw new SRPError(ErrorCode.INVALID_ALGORITHM, `Unknown algorithm "${name}" - available algorithms: ${Object.values(Algorithm).join(', ')}`);
+    }
+    return algorithm;
+}
+
+function getProfile (name: string = Profile.Legacy): Profile {
+    const profile = Object.values(Profile).find((value) => value === name.toLowerCase());
+    if (!profile) {
+        throw new SRPError(ErrorCode.INVALID_INPUT, `Unknown profile "${name}" - available profiles: ${Object.values(Profile).join(', ')}`);
+    }
+    return profile;
+}
+
+function getNormalization (name: string = Normalization.None): Normalization {
+    const normalization = Object.values(Normalization).find((value) => value === name.toLowerCase());
+    if (!normalization) {
+        throw new SRPError(ErrorCode.INVALID_INPUT, `Unknown normalization "${name}" - available normalizations: ${Object.values(Normalization).join(', ')}`);
+    }
+    return normalization;
+}
+
+function getKDF (name = 'none'): KDFParams {
+    if (!Object.prototype.hasOwnProperty.call(KDFPresets, name)) {
+        throw new SRPError(ErrorCode.INVALID_KDF, `Unknown KDF "${name}" - available KDFs: ${Object.keys(KDFPresets).join(', ')}`);
+    }
+    return KDFPresets[name as keyof typeof KDFPresets];
+}
+
+function getPassword (args: Args): string {
+    const password = args.password ?? process.env.SRP_PASSWORD;
+    if (password === undefined) {
+        throw new SRPError(ErrorCode.INVALID_INPUT, 'Missing --password (or $SRP_PASSWORD)');
+    }
+    return password;
+}
+
+function required (args: Args, name: string): string {
+    const value = args[name];
+    if (value === undefined) {
+        throw new SRPError(ErrorCode.INVALID_INPUT, `Missing --${name}`);
+    }
+    return value;
+}
+
+function describe (err: unknown): string {
+    return err instanceof SRPError ? `${err.code}: ${err.message}` : String(err);
+}
+
+function print (value: unknown): void {
+    console.log(JSON.stringify(value, (_, item) => typeof item === 'bigint' ? toHex(item) : item, 4));
+}
+
+function parseArgs (argv: string[]): Args {
+    const args: Args = {};
+    for (const arg of argv) {
+        const match = /^--([^=]+)(?:=(.*))?$/s.exec(arg);
+        if (!match) {
+            throw new SRPError(ErrorCode.INVALID_INPUT, `Unexpected argument "${arg}"`);
+        }
+        args[match[1]] = match[2] ?? '';
+    }
+    return args;
+}
+
+const commands: Record<string, (args: Args) => Promise<void>> = {
+    setup,
+    login,
+    'verify-group': verifyGroup,
+    bench,
+};
+
+(async () => {
+    const [command, ...rest] = process.argv.slice(2);
+    if (!command || command === 'help' || command === '--help' || !Object.prototype.hasOwnProperty.call(commands, command)) {
+        console.log(USAGE);
+        process.exitCode = command && command !== 'help' && command !== '--help' ? 1 : 0;
+        return;
+    }
+
+    await commands[command](parseArgs(rest));
+})().catch((err) => {
+    console.error(`error: ${describe(err)}`);
+    process.exitCode = 1;
+});
@@ -4,11 +4,22 @@
  * License: https://github.com/knokbak/srp-auth
  */
 
-import { SRPError, SRPSecurityViolation } from '../util/error';
-import { Group } from '../util/groups';
-import { Algorithm, hash } from '../util/hash';
-import { doesMatch, powMod, toBigInt, toHex, toString, toUint8Array } from '../util/math';
-import { random } from '../util/random';
+import { ExecutionBackend, inlineBackend } from '../util/backend';
+import { SecureChannel } from '../util/channel';
+import { checkPublicKey, checkSalt, checkScrambler } from '../util/checks';
+import { encryptCredentials } from '../util/credentials';
+import { ErrorCode, SRPError, SRPSecurityViolation } from '../util/error';
+import { EventEmitter, SRPObserver } from '../util/events';
+import { checkGroup, Group } from '../util/groups';
+import { Algorithm, HashProvider } from '../util/hash';
+import { KDFParams, KDFPresets } from '../util/kdf';
+import { timingSafeEqual, toBigInt, toHex, toString, toUint8Array } from '../util/math';
+import { Normalization, normalizeIdentity, normalizePassword } from '../util/normalize';
+import { computeBinding, computeK, computeM1, computeM2, computeSessionKey, computeU, computeX, Profile } from '../util/profile';
+import { random, RandomSource } from '../util/random';
+import { deriveResumptionSecret } from '../util/resume';
+import { UpgradeTarget } from '../util/upgrade';
+import { ClientSetup, ClientSetupConfig } from './setup';
 
 export type ClientAuthenticateConfig = {
     /**
@@ -23,10 +34,50 @@ export type ClientAuthenticateConfig = {
      * The SRP group to use. The built-in groups are from [RFC 5054](https://datatracker.ietf.org/doc/html/rfc5054#appendix-A).
      */
     group: Group;
+    /**
+     * Allows a custom group which has not been validated with `validateGroup(...)`. Defaults to `false`. Only enable this if you trust where the group came from!
+     */
+    allowUnvalidatedGroup?: boolean;
     /**
      * The hashing algorithm to use.
      */
     algorithm: Algorithm;
+    /**
+     * The protocol profile to use. Defaults to `Profile.Legacy`. This must match the profile used during setup, and by the server.
+     */
+    profile?: Profile;
+    /**
+     * The key derivation function that was used during setup. Defaults to `KDFPresets.none`. This can also be provided by the server when calling `exchange(...)`.
+     */
+    kdf?: KDFParams;
+    /**
+     * How the username and password were normalised during setup. Defaults to `Normalization.None`. This can also be provided by the server when calling `exchange(...)`, but the username sent to the server by `init()` is normalised with this one.
+     */
+    normalization?: Normalization;
+    /**
+     * A string identifying the application or service, e.g. `"example.com login"`. If provided, it is mixed into `M1` and `M2`, so that a proof cannot be relayed to another service. The server must use the same context.
+     */
+    context?: string;
+    /**
+     * Data identifying the underlying connection, e.g. a TLS exporter value or a WebSocket session ID. If provided, it is mixed into `M1` and `M2`, so that a proof cannot be relayed to another connection. The server must use the same value. If a string is provided, it must be hex encoded.
+     */
+    channelBinding?: string | Uint8Array;
+    /**
+     * Computes the hashes used by SRP. Defaults to a `WASMHashProvider`. Use a `NativeHashProvider` where WebAssembly cannot be instantiated. Every provider gives the same result, so this does not need to match the other side.
+     */
+    hashProvider?: HashProvider;
+    /**
+     * Generates the client's ephemeral secret (`a`). Defaults to `random(...)`, which uses the runtime's CSPRNG. Only replace this in tests, e.g. to replay known-answer vectors.
+     */
+    random?: RandomSource;
+    /**
+     * Runs the modular exponentiations. Defaults to an `InlineBackend`, which runs them on the calling thread. Use a `WorkerPool` to keep large groups from blocking the event loop.
+     */
+    backend?: ExecutionBackend;
+    /**
+     * Receives lifecycle events, e.g. to log or trace each handshake. Use `createLogObserver(...)` or `createSpanObserver(...)`, or provide your own function. Events never include secrets.
+     */
+    observer?: SRPObserver;
 }
 
 export type ClientAuthenticateInit = {
@@ -63,180 +114,389 @@ export type ClientAuthenticateResult = {
     }
 }
 
+export type PasswordChangeConfig = Omit<ClientSetupConfig, 'username' | 'group' | 'algorithm'> & {
+    /**
+     * The SRP group to use for the new password. Defaults to the current group.
+     */
+    group?: Group;
+    /**
+     * The hashing algorithm to use for the new password. Defaults to the current algorithm.
+     */
+    algorithm?: Algorithm;
+}
+
+export type PasswordChangeResult = {
+    raw: {
+        /**
+         * The new salt (`s`), verifier (`v`) and parameters, encrypted under the session key (`K`), as a Uint8Array.
+         */
+        payload: Uint8Array;
+    }
+    encoded: {
+        /**
+         * The encrypted payload encoded as hex.
+         */
+        payload: string;
+    }
+}
+
+export type ResumptionSecret = {
+    raw: {
+        /**
+         * The resumption secret (`RS`) as a Uint8Array.
+         */
+        secret: Uint8Array;
+    }
+    encoded: {
+        /**
+         * The resumption secret (`RS`) encoded as hex.
+         */
+        secret: string;
+    }
+}
+
 export class ClientAuthenticate {
-    public readonly I: Uint8Array;
-    public readonly p: Uint8Array;
     public readonly group: Group;
     public readonly algorithm: Algorithm;
-
+    public readonly profile: Profile;
+
+    private kdf: KDFParams;
+    private normalization: Normalization;
+    private normalizedI: Uint8Array;
+    private normalizedP: Uint8Array;
+    private readonly username: string;
+    private readonly password: string;
+    private readonly hashProvider?: HashProvider;
+    private readonly random: RandomSource;
+    private readonly backend: ExecutionBackend;
+    private readonly observer?: SRPObserver;
+    private readonly events: EventEmitter;
+    private readonly context?: string;
+    private readonly channelBinding?: Uint8Array;
     private a?: bigint;
     private A?: bigint;
     private B?: bigint;
     private u?: bigint;
-    private s?: bigint;
+    private s?: Uint8Array;
 
     private S?: bigint;
     private K?: Uint8Array;
     private M1?: Uint8Array;
+    private verified = false;
 
     constructor (config: ClientAuthenticateConfig) {
-        this.I = new TextEncoder().encode(config.username);
-        this.p = new TextEncoder().encode(config.password);
+        this.username = config.username;
+        this.password = config.password;
+        this.normalization = config.normalization ?? Normalization.None;
+        // unassigned code points are allowed, as they may have been assigned by a newer version of Unicode during setup
+        this.normalizedI = new TextEncoder().encode(normalizeIdentity(this.username, this.normalization, true));
+        this.normalizedP = new TextEncoder().encode(normalizePassword(this.password, this.normalization, true));
+        checkGroup(config.group, config.allowUnvalidatedGroup);
         this.group = config.group;
         this.algorithm = config.algorithm;
+        this.profile = config.profile ?? Profile.Legacy;
+        this.kdf = config.kdf ?? KDFPresets.none;
+        this.hashProvider = config.hashProvider;
+        this.random = config.random ?? random;
+        this.backend = config.backend ?? inlineBackend;
+        this.observer = config.observer;
+        this.events = new EventEmitter(config.observer, 'ClientAuthenticate', config.username, this.group, this.algorithm, this.profile);
+        this.context = config.context;
+        this.channelBinding = typeof config.channelBinding === 'string' ? toUint8Array(config.channelBinding) : config.channelBinding;
+    }
+
+    /**
+     * The user's identity (`I`), UTF-8 encoded after normalisation. This changes if the server sends a different normalisation to `exchange(...)`.
+     */
+    public get I (): Uint8Array {
+        return this.normalizedI;
+    }
+
+    /**
+     * The user's password (`p`), UTF-8 encoded after normalisation.
+     */
+    public get p (): Uint8Array {
+        return this.normalizedP;
     }
 
     /**
      * Computes `A`, the client's ephemeral session key. This should be sent to the server, along with `I`.
      */
     public async init (): Promise<ClientAuthenticateInit> {
-        // generate a random 256 bit value (session key)
-        const A = this.computeA();
-        this.A = A;
-
-        return {
-            I: toString(this.I),
-            raw: {
-                A: toUint8Array(A),
-            },
-            encoded: {
-                A: toHex(toUint8Array(A)),
-            },
-        };
+        this.events.emit('started');
+        return this.events.run(async () => {
+            if (this.A) {
+                throw new SRPError(ErrorCode.OUT_OF_ORDER, 'init() has already been called');
+            }
+
+            // generate a random 256 bit value (session key)
+            const A = await this.events.step('A', () => this.computeA());
+            this.A = A;
+
+            return {
+                I: toString(this.I),
+                raw: {
+                    A: toUint8Array(A),
+                },
+                encoded: {
+                    A: toHex(toUint8Array(A)),
+                },
+            };
+        });
     }
 
-    private computeA (): bigint {
+    private async computeA (): Promise<bigint> {
         // generate a random 256 bit value (ephemeral session key)
-        const a = random(256);
+        const a = this.random(256);
         this.a = toBigInt(a);
 
         // A = g ^ a % N
-        const A = powMod(this.group.g, this.a, this.group.N);
-        return A;
+        return this.backend.powModFixed(this.group.g, this.a, this.group.N);
     }
 
     /**
      * Computes `u` (a combination of both the client and server's ephemeral session keys `A` and `B`), `S` (the session key) and `K` (the client's key).
      * @param B The server's ephemeral session key (`B`), which should be provided by the server. If a string is provided, it must be hex encoded.
      * @param s The salt (`s`) which was originally calculated by the client but is now stored by the server. If a string is provided, it must be hex encoded.
+     * @param kdf The key derivation function and its parameters, as stored by the server. If undefined, `config.kdf` is used.
+     * @param normalization How the username and password were normalised, as stored by the server. If undefined, `config.normalization` is used.
+     * @throws {SRPSecurityViolation} if `B`, `s` or `u` fail the RFC 5054 safety checks.
+     * @throws {SRPError} `PROHIBITED_CHARACTER` if the username or password contains a character which `normalization` does not allow.
      */
-    public async exchange (B: string | Uint8Array, s: string | Uint8Array): Promise<void> {
-        if (!this.A) {
-            throw new SRPError('A must be set before exchanging B');
-        }
-
-        if (typeof B === 'string') {
-            B = toUint8Array(B);
-        }
-        this.B = toBigInt(B);
-
-        if (typeof s === 'string') {
-            s = toUint8Array(s);
-        }
-        this.s = toBigInt(s);
-
-        if (this.B === 0n) {
-            throw new SRPError('Invalid server-supplied public key: B = 0\nThis is probably a misconfiguration, but possibly a MitM attack!');
-        }
-
-        this.u = await this.computeU();
-        if (this.u === 0n) {
-            throw new SRPError('Invalid keys: u = 0\nThis is probably a misconfiguration, but possibly a MitM attack!');
-        }
-
-        this.S = await this.computeS();
-        this.K = await hash(this.algorithm, [ toUint8Array(this.S) ]);
+    public async exchange (B: string | Uint8Array, s: string | Uint8Array, kdf?: KDFParams, normalization?: Normalization): Promise<void> {
+        return this.events.run(async () => {
+            if (!this.A) {
+                throw new SRPError(ErrorCode.OUT_OF_ORDER, 'A must be set before exchanging B');
+            }
+
+            if (this.B) {
+                throw new SRPError(ErrorCode.OUT_OF_ORDER, 'exchange(...) has already been called');
+            }
+
+            if (typeof B === 'string') {
+                B = toUint8Array(B);
+            }
+            // B must be less than N and must not be 0 (mod N)
+            this.B = checkPublicKey('B', B, this.group);
+
+            if (typeof s === 'string') {
+                s = toUint8Array(s);
+            }
+            checkSalt(s);
+            this.s = s;
+
+            if (kdf) {
+                this.kdf = kdf;
+            }
+
+            if (normalization && normalization !== this.normalization) {
+                this.normalization = normalization;
+                this.normalizedI = new TextEncoder().encode(normalizeIdentity(this.username, normalization, true));
+                this.normalizedP = new TextEncoder().encode(normalizePassword(this.password, normalization, true));
+            }
+
+            this.u = await this.events.step('u', () => this.computeU());
+            checkScrambler(this.u);
+
+            const S = await this.computeS();
+            this.S = S;
+            this.K = await this.events.step('K', () => computeSessionKey(this.profile, this.algorithm, S, this.hashProvider));
+        });
     }
 
     private async computeU (): Promise<bigint> {
         if (!this.A || !this.B) {
-            throw new SRPError('A and B must be set before computing u');
+            throw new SRPError(ErrorCode.OUT_OF_ORDER, 'A and B must be set before computing u');
         }
 
         // U = H(A, B)
-        const u = await hash(this.algorithm, [ toUint8Array(this.A), toUint8Array(this.B) ]);
-        return toBigInt(u);
+        return computeU(this.profile, this.algorithm, this.group, this.A, this.B, this.hashProvider);
     }
 
     private async computeS (): Promise<bigint> {
         if (!this.a || !this.B || !this.u) {
-            throw new SRPError('a, B, and u must be set before computing S');
+            throw new SRPError(ErrorCode.OUT_OF_ORDER, 'a, B, and u must be set before computing S');
         }
 
         // S = (B - k * g^x) ^ (a + u * x) % N
-        const k = await this.computeK();
-        const x = await this.computeX();
-        return powMod(this.B - k * powMod(this.group.g, x, this.group.N), this.a + this.u * x, this.group.N);
+        const k = await this.events.step('k', () => this.computeK());
+        const x = await this.events.step('x', () => this.computeX());
+        const { a, B, u } = this;
+        const N = this.group.N;
+        return this.events.step('S', async () => this.backend.powMod(B - k * await this.backend.powModFixed(this.group.g, x, N), a + u * x, N));
     }
 
     private async computeK (): Promise<bigint> {
-        const k = await hash(this.algorithm, [ toUint8Array(this.group.N), toUint8Array(this.group.g) ]);
-        return toBigInt(k);
+        return computeK(this.profile, this.algorithm, this.group, this.hashProvider);
     }
 
     private async computeX (): Promise<bigint> {
         if (!this.s) {
-            throw new SRPError('s must be set before computing x');
+            throw new SRPError(ErrorCode.OUT_OF_ORDER, 's must be set before computing x');
         }
 
-        const identity = await hash(this.algorithm, [ this.I, ':', this.p ]);
-        const x = await hash(this.algorithm, [ toUint8Array(this.s), identity ]);
-        return toBigInt(x);
+        return computeX(this.profile, this.algorithm, this.I, this.p, this.s, this.kdf, this.hashProvider);
     }
 
     /**
      * Computes `M1` which can be used by the server to verify the client's authenticity, without sending the user's password in plain text.
      */
     public async authenticate (): Promise<ClientAuthenticateResult> {
-        if (!this.s || !this.A || !this.B || !this.K) {
-            throw new SRPError('s, A, B, and K must be set before authenticating');
+        return this.events.run(async () => {
+            if (!this.s || !this.A || !this.B || !this.K) {
+                throw new SRPError(ErrorCode.OUT_OF_ORDER, 's, A, B, and K must be set before authenticating');
+            }
+
+            if (this.M1) {
+                throw new SRPError(ErrorCode.OUT_OF_ORDER, 'authenticate() has already been called');
+            }
+
+            // M1 = H(H(N) XOR H(g), H(I), s, A, B, K[, T])
+            const T = await computeBinding(this.algorithm, this.context, this.channelBinding, this.hashProvider);
+            const { s, A, B, K } = this;
+            const M1 = await this.events.step('M1', () => computeM1(this.profile, this.algorithm, this.group, this.I, s, A, B, K, T, this.hashProvider));
+            this.M1 = M1;
+            return {
+                raw: {
+                    M1,
+                },
+                encoded: {
+                    M1: toHex(M1),
+                },
+            };
+        });
+    }
+
+    /**
+     * Verifies that the server holds the verifier (`v`) that was originally created by the client during setup. This authenticates the server.
+     * > ⚠️ **Warning**: `verifyServer(...)` will throw an `SRPSecurityViolation` if `M2` does not match its expected value. If an error is thrown, the client may still have passed authentication, but the server **cannot** be trusted. The server is either misconfigured, or is a malicious attacker who is blindly accepting anything you throw at them. You may be caught in the middle of a MitM attack!
+     * @param M2 The server's authentication key (`M2`), which should be provided by the server. If a string is provided, it must be hex encoded.
+     * @throws {SRPSecurityViolation} if `M2` does not match its expected value.
+     */
+    public async verifyServer (M2: string | Uint8Array): Promise<void> {
+        return this.events.run(async () => {
+            if (!this.A || !this.M1 || !this.K) {
+                throw new SRPError(ErrorCode.OUT_OF_ORDER, 'A, M1, and K must be set before verifying the server');
+            }
+
+            if (this.verified) {
+                throw new SRPError(ErrorCode.OUT_OF_ORDER, 'verifyServer(...) has already been called');
+            }
+
+            const T = await computeBinding(this.algorithm, this.context, this.channelBinding, this.hashProvider);
+            const { A, M1, K } = this;
+            const expected = await this.events.step('M2', () => computeM2(this.profile, this.algorithm, A, M1, K, T, this.hashProvider));
+
+            if (typeof M2 === 'string') {
+                M2 = toUint8Array(M2);
+            }
+
+            if (!timingSafeEqual(expected, M2)) {
+                throw new SRPSecurityViolation(ErrorCode.BAD_SERVER_PROOF, 'Server-supplied M2 does not match the expected value. This is probably a misconfiguration (e.g. a different context or channel binding), but possibly a MitM attack!');
+            }
+
+            this.verified = true;
+            this.events.emit('proof-verified');
+        });
+    }
+
+    /**
+     * Creates a new salt (`s`) and verifier (`v`) for a new password, encrypted under the session key (`K`). Send `encoded.payload` to the server along with `M1`. The server only accepts it once `M1` proves that the user knows their current password.
+     * @param config The new password. The group, algorithm, profile, KDF and normalisation default to the current ones, but can be upgraded at the same time.
+     * @throws {SRPError} `INVALID_INPUT` if the new normalisation would change the username, as the server would no longer find the user.
+     */
+    public async changePassword (config: PasswordChangeConfig): Promise<PasswordChangeResult> {
+        if (!this.K || !this.M1) {
+            throw new SRPError(ErrorCode.OUT_OF_ORDER, 'authenticate() must be called before changing the password');
         }
 
-        // M1 = H(H(N) XOR H(g), H(I), s, A, B, K)
-        const N = toUint8Array(this.group.N);
-        const g = toUint8Array(this.group.g);
-        const s = toUint8Array(this.s);
-        const A = toUint8Array(this.A);
-        const B = toUint8Array(this.B);
-
-        const [HN, Hg] = await Promise.all([hash(this.algorithm, [ N ]), hash(this.algorithm, [ g ])]);
-        const HX = new Uint8Array(HN.length);
-        for (let i = 0; i < HN.length; i++) {
-            HX[i] = HN[i] ^ Hg[i];
+        // the server still knows the user by the current username, and the new verifier must match it
+        const normalization = config.normalization ?? this.normalization;
+        const I = normalizeIdentity(this.username, normalization);
+        if (I !== toString(this.I)) {
+            throw new SRPError(ErrorCode.INVALID_INPUT, `The new normalization would change the username from "${toString(this.I)}" to "${I}"`);
         }
 
-        const M1 = await hash(this.algorithm, [ HX, this.I, s, A, B, this.K ]);
-        this.M1 = M1;
+        const setup = {
+            ...config,
+            username: this.username,
+            group: config.group ?? this.group,
+            algorithm: config.algorithm ?? this.algorithm,
+            profile: config.profile ?? this.profile,
+            kdf: config.kdf ?? this.kdf,
+            normalization,
+            hashProvider: config.hashProvider ?? this.hashProvider,
+            random: config.random ?? this.random,
+            backend: config.backend ?? this.backend,
+            observer: config.observer ?? this.observer,
+        };
+        const { raw } = await new ClientSetup(setup).init();
+
+        const payload = await encryptCredentials(this.K, this.I, {
+            s: raw.s,
+            v: raw.v,
+            group: setup.group,
+            algorithm: setup.algorithm,
+            profile: setup.profile,
+            kdf: setup.kdf,
+            normalization,
+        });
         return {
             raw: {
-                M1,
+                payload,
             },
             encoded: {
-                M1: toHex(M1),
+                payload: toHex(payload),
             },
         };
     }
 
     /**
-     * Verifies that the server holds the verifier (`v`) that was originally created by the client during setup. This authenticates the server.
-     * > ⚠️ **Warning**: `verifyServer(...)` will throw an `SRPSecurityViolation` if `M2` does not match its expected value. If an error is thrown, the client may still have passed authentication, but the server **cannot** be trusted. The server is either misconfigured, or is a malicious attacker who is blindly accepting anything you throw at them. You may be caught in the middle of a MitM attack!
-     * @param M2 The server's authentication key (`M2`), which should be provided by the server. If a string is provided, it must be hex encoded.
-     * @throws {SRPSecurityViolation} if `M2` does not match its expected value.
+     * Creates a new salt (`s`) and verifier (`v`) for the current password, using the parameters requested by the server, encrypted under the session key (`K`). Send `encoded.payload` to the server along with `M1`. This lets the server move the user to a stronger group, algorithm, KDF or normalisation without a password reset.
+     * @param target The `upgrade` target sent by the server along with `B`.
      */
-    public async verifyServer (M2: string | Uint8Array): Promise<void> {
-        if (!this.A || !this.M1 || !this.K) {
-            throw new SRPError('A, M1, and K must be set before verifying the server');
+    public async upgrade (target: UpgradeTarget): Promise<PasswordChangeResult> {
+        return this.changePassword({
+            password: this.password,
+            group: {
+                g: BigInt(`0x${target.g}`),
+                N: BigInt(`0x${target.N}`),
+            },
+            algorithm: target.algorithm,
+            profile: target.profile,
+            kdf: target.kdf,
+            normalization: target.normalization,
+        });
+    }
+
+    /**
+     * Derives the resumption secret (`RS`) from the session key (`K`). Store it with the ticket from the server's `createTicket(...)`, and pass both to `ClientResume` to resume the session later without the password. This can only be called once the server has been verified with `verifyServer(...)`.
+     * > ⚠️ **Warning**: The resumption secret lets anyone resume the user's session until the ticket expires, so it must be stored as carefully as a session token.
+     */
+    public async deriveResumptionSecret (): Promise<ResumptionSecret> {
+        if (!this.K || !this.verified) {
+            throw new SRPError(ErrorCode.OUT_OF_ORDER, 'The server must be verified before deriving a resumption secret');
         }
 
-        const A = toUint8Array(this.A);
-        const expected = await hash(this.algorithm, [ A, this.M1, this.K ]);
+        const secret = await deriveResumptionSecret(this.K);
+        return {
+            raw: {
+                secret,
+            },
+            encoded: {
+                secret: toHex(secret),
+            },
+        };
+    }
 
-        if (typeof M2 === 'string') {
-            M2 = toUint8Array(M2);
+    /**
+     * Creates an encrypted and authenticated channel to the server, using keys derived from the shared session key (`K`). This can only be called once the server has been verified with `verifyServer(...)`.
+     */
+    public async createChannel (): Promise<SecureChannel> {
+        if (!this.K || !this.verified) {
+            throw new SRPError(ErrorCode.OUT_OF_ORDER, 'The server must be verified before creating a channel');
         }
 
-        if (doesMatch(expected, M2)) {
-            throw new SRPSecurityViolation('Server-supplied M2 does not match the expected value\nThis is probably a misconfiguration, but possibly a MitM attack!');
-        }
+        return SecureChannel.create(this.K, 'client');
     }
 }
@@ -0,0 +1,99 @@
+/*
+ * BSD 3-Clause License
+ * Copyright (c) 2024, Ollie Killean
+ * License: https://github.com/knokbak/srp-auth
+ */
+
+import { SecureChannel } from '../util/channel';
+import { ErrorCode, SRPError } from '../util/error';
+import { AbortMessage, HandshakeMessage, HelloMessage, MessageType } from '../util/messages';
+import { ClientAuthenticate, ClientAuthenticateConfig } from './authenticate';
+
+type ClientHandshakeState = 'start' | 'hello-sent' | 'proof-sent' | 'done' | 'failed';
+
+/**
+ * Drives `ClientAuthenticate` with handshake messages, so that the handshake can be carried over any transport. Messages must be exchanged in order: `Hello` →, ← `Challenge`, `Proof` →, ← `Verify`.
+ */
+export class ClientHandshake {
+    private readonly authenticate: ClientAuthenticate;
+    private state: ClientHandshakeState = 'start';
+
+    constructor (config: ClientAuthenticateConfig) {
+        this.authenticate = new ClientAuthenticate(config);
+    }
+
+    /**
+     * Whether the server has been verified, and the handshake is complete.
+     */
+    public get done (): boolean {
+        return this.state === 'done';
+    }
+
+    /**
+     * Starts the handshake. The returned `Hello` message should be sent to the server.
+     */
+    public async start (): Promise<HelloMessage> {
+        if (this.state !== 'start') {
+            throw new SRPError(ErrorCode.OUT_OF_ORDER, 'start() has already been called');
+        }
+
+        const { I, raw } = await this.run(() => this.authenticate.init());
+        this.state = 'hello-sent';
+        return { type: MessageType.Hello, I, A: raw.A };
+    }
+
+    /**
+     * Handles a message from the server, and returns the next message to send to the server. Once the server has been verified, `null` is returned.
+     * > ⚠️ **Warning**: If this throws, the handshake has failed and cannot be continued. Send `abort(error)` to the server, then start a new handshake.
+     * @throws {SRPError} if the message arrives out of order, or the server aborted the handshake.
+     * @throws {SRPSecurityViolation} if the server's values fail the safety checks, or the server cannot be verified.
+     */
+    public async receive (message: HandshakeMessage): Promise<HandshakeMessage | null> {
+        if (message.type === MessageType.Abort) {
+            this.state = 'failed';
+            throw new SRPError(ErrorCode.ABORTED, `The server aborted the handshake: ${message.code}`);
+        }
+
+        if (this.state === 'hello-sent' && message.type === MessageType.Challenge) {
+            const { raw } = await this.run(async () => {
+                await this.authenticate.exchange(message.B, message.s, message.kdf, message.normalization);
+                return this.authenticate.authenticate();
+            });
+            this.state = 'proof-sent';
+            return { type: MessageType.Proof, M1: raw.M1 };
+        }
+
+        if (this.state === 'proof-sent' && message.type === MessageType.Verify) {
+            await this.run(() => this.authenticate.verifyServer(message.M2));
+            this.state = 'done';
+            return null;
+        }
+
+        this.state = 'failed';
+        throw new SRPError(ErrorCode.OUT_OF_ORDER, `Unexpected "${message.type}" message during the handshake`);
+    }
+
+    /**
+     * Creates an `Abort` message for the server, describing why the handshake failed.
+     */
+    public abort (error?: unknown): AbortMessage {
+        this.state = 'failed';
+        return { type: MessageType.Abort, code: error instanceof SRPError ? error.code : ErrorCode.ABORTED };
+    }
+
+    /**
+     * Creates an encrypted and authenticated channel to the server. This can only be called once the handshake is complete.
+     */
+    public async createChannel (): Promise<SecureChannel> {
+        return this.authenticate.createChannel();
+    }
+
+    private async run<T> (step: () => Promise<T>): Promise<T> {
+        try {
+            return await step();
+        } catch (err) {
+            this.state = 'failed';
+            throw err;
+        }
+    }
+}
@@ -0,0 +1,130 @@
+/*
+ * BSD 3-Clause License
+ * Copyright (c) 2024, Ollie Killean
+ * License: https://github.com/knokbak/srp-auth
+ */
+
+import { ErrorCode, PolicyViolation, SRPError, SRPPolicyError, SRPRateLimitError } from '../util/error';
+import { KDFParams } from '../util/kdf';
+import { Normalization } from '../util/normalize';
+import { UpgradeTarget } from '../util/upgrade';
+import { ClientAuthenticate, ClientAuthenticateConfig } from './authenticate';
+import { ClientSetup, ClientSetupConfig } from './setup';
+
+export type HTTPClientConfig = {
+    /**
+     * The URL that the server's routes are mounted under, e.g. `https://example.com/srp`.
+     */
+    url: string;
+    /**
+     * Extra headers to send with every request.
+     */
+    headers?: Record<string, string>;
+    /**
+     * The `fetch` implementation to use. Defaults to the global `fetch`.
+     */
+    fetch?: typeof fetch;
+}
+
+export type HTTPLoginResult = {
+    /**
+     * The value returned by the server's `session` callback.
+     */
+    session: unknown;
+    /**
+     * The completed handshake. The server has been verified, so this can be used to create a `SecureChannel`.
+     */
+    authenticate: ClientAuthenticate;
+    /**
+     * If the server upgraded the user's credentials, the parameters they now use. Save these and pass them to the next `login(...)`.
+     */
+    upgraded?: Pick<ClientAuthenticateConfig, 'group' | 'algorithm' | 'profile' | 'kdf' | 'normalization'>;
+}
+
+/**
+ * Drives `ClientSetup` and `ClientAuthenticate` against the routes served by `createHTTPHandler(...)`.
+ */
+export class HTTPClient {
+    private readonly config: HTTPClientConfig;
+
+    constructor (config: HTTPClientConfig) {
+        this.config = config;
+    }
+
+    /**
+     * Creates the user's verifier and sends it to the server.
+     * @throws {SRPError} if the server rejects the registration.
+     */
+    public async register (config: ClientSetupConfig): Promise<void> {
+        const { I, kdf, normalization, encoded } = await new ClientSetup(config).init();
+        await this.post('register', { I, s: encoded.s, v: encoded.v, kdf, normalization });
+    }
+
+    /**
+     * Authenticates with the server, then verifies the server. If the server asks for the user's credentials to be upgraded, new ones are sent along with `M1`.
+     * @throws {SRPError} if the server rejects the request, e.g. because the user does not exist.
+     * @throws {SRPRateLimitError} if the user or client has made too many failed attempts.
+     * @throws {SRPSecurityViolation} if the server's values fail the safety checks, or the server cannot be verified.
+     */
+    public async login (config: ClientAuthenticateConfig): Promise<HTTPLoginResult> {
+        const authenticate = new ClientAuthenticate(config);
+        const { I, encoded: { A } } = await authenticate.init();
+
+        const challenge = await this.post('challenge', { I, A }) as { s: string; B: string; kdf: KDFParams; normalization?: Normalization; token: string; upgrade?: UpgradeTarget };
+        await authenticate.exchange(challenge.B, challenge.s, challenge.kdf, challenge.normalization);
+        const { encoded: { M1 } } = await authenticate.authenticate();
+        // an upgrade is optional, so a failed one (e.g. an unvalidated custom group) does not stop the user logging in
+        const upgrade = challenge.upgrade && await authenticate.upgrade(challenge.upgrade).then(({ encoded }) => encoded.payload, () => undefined);
+
+        const verify = await this.post('verify', { token: challenge.token, M1, upgrade }) as { M2: string; session: unknown; upgraded?: boolean };
+        await authenticate.verifyServer(verify.M2);
+
+        const target = verify.upgraded ? challenge.upgrade : undefined;
+        return {
+            session: verify.session,
+            authenticate,
+            upgraded: target && {
+                group: { g: BigInt(`0x${target.g}`), N: BigInt(`0x${target.N}`) },
+                algorithm: target.algorithm,
+                profile: target.profile,
+                kdf: target.kdf,
+                normalization: target.normalization,
+            },
+        };
+    }
+
+    private async post (route: string, body: unknown): Promise<unknown> {
+        const fetcher = this.config.fetch ?? fetch;
+        const res = await fetcher(`${this.config.url.replace(/\/+$/, '')}/${route}`, {
+            method: 'POST',
+            headers: {
+                ...this.config.headers,
+                'Content-Type': 'application/json',
+            },
+            body: JSON.stringify(body),
+        });
+
+        let data: { error?: string; message?: string; violations?: PolicyViolation[] } | undefined;
+        try {
+            data = await res.json();
+        } catch {
+            data = undefined;
+        }
+
+        if (!res.ok) {
+            const code = Object.values(ErrorCode).find((value) => value === data?.error);
+            if (code === ErrorCode.THROTTLED || code === ErrorCode.LOCKED_OUT) {
+                throw new SRPRateLimitError(code, data?.message ?? 'Too many failed attempts', Number(res.headers.get('Retry-After') ?? 0) * 1000);
+            }
+            if (code === ErrorCode.POLICY_VIOLATION && Array.isArray(data?.violations)) {
+                throw new SRPPolicyError(data.violations);
+            }
+            throw new SRPError(code ?? ErrorCode.ABORTED, data?.message ?? `The server responded with status ${res.status}`);
+        }
+
+        if (!data || typeof data !== 'object') {
+            throw new SRPError(ErrorCode.INVALID_MESSAGE, 'The server responded with an invalid body');
+        }
+        return data;
+    }
+}
@@ -0,0 +1,184 @@
+/*
+ * BSD 3-Clause License
+ * Copyright (c) 2024, Ollie Killean
+ * License: https://github.com/knokbak/srp-auth
+ */
+
+import { SecureChannel } from '../util/channel';
+import { ErrorCode, SRPError, SRPSecurityViolation } from '../util/error';
+import { timingSafeEqual, toHex, toString, toUint8Array } from '../util/math';
+import { random, RandomSource } from '../util/random';
+import { computeResumeProof, deriveResumeKeys, RESUME_NONCE_LENGTH } from '../util/resume';
+
+export type ClientResumeConfig = {
+    /**
+     * The username used for authentication.
+     */
+    username: string;
+    /**
+     * The ticket issued by the server, either after a full handshake or by the last resumption.
+     */
+    ticket: string;
+    /**
+     * The resumption secret (`RS`) which matches `ticket`, from `ClientAuthenticate.deriveResumptionSecret()` or the last resumption. If a string is provided, it must be hex encoded.
+     */
+    secret: string | Uint8Array;
+    /**
+     * Generates the client's nonce. Defaults to `random(...)`, which uses the runtime's CSPRNG. Only replace this in tests.
+     */
+    random?: RandomSource;
+}
+
+export type ClientResumeInit = {
+    /**
+     * The username in plain text. This should be sent to the server, along with `ticket`, `encoded.nonce` and `encoded.proof`.
+     */
+    I: string;
+    /**
+     * The ticket to send to the server.
+     */
+    ticket: string;
+    raw: {
+        /**
+         * The client's nonce (`Nc`) as a Uint8Array.
+         */
+        nonce: Uint8Array;
+        /**
+         * The client's proof as a Uint8Array.
+         */
+        proof: Uint8Array;
+    }
+    encoded: {
+        /**
+         * The client's nonce (`Nc`) encoded as hex.
+         */
+        nonce: string;
+        /**
+         * The client's proof encoded as hex.
+         */
+        proof: string;
+    }
+}
+
+export type ClientResumeResult = {
+    /**
+     * The next ticket. Store this in place of the ticket that was used, which is no longer valid.
+     */
+    ticket: string;
+    raw: {
+        /**
+         * The next resumption secret (`RS'`) as a Uint8Array. Store this in place of the secret that was used.
+         */
+        secret: Uint8Array;
+    }
+    encoded: {
+        /**
+         * The next resumption secret (`RS'`) encoded as hex.
+         */
+        secret: string;
+    }
+}
+
+/**
+ * Resumes a session using a ticket from the server, without the password. Unlike `ClientAuthenticate`, no modular exponentiation is needed.
+ * > ⚠️ **Warning**: The resumption secret lets anyone resume the user's session until the ticket expires, so it must be stored as carefully as a session token. Discard it once `verifyServer(...)` returns the next one.
+ */
+export class ClientResume {
+    public readonly I: Uint8Array;
+
+    private readonly ticket: string;
+    private readonly secret: Uint8Array;
+    private readonly random: RandomSource;
+    private Nc?: Uint8Array;
+    private K?: Uint8Array;
+
+    constructor (config: ClientResumeConfig) {
+        this.I = new TextEncoder().encode(config.username);
+        this.ticket = config.ticket;
+        this.secret = typeof config.secret === 'string' ? toUint8Array(config.secret) : config.secret;
+        this.random = config.random ?? random;
+    }
+
+    /**
+     * Computes a fresh nonce (`Nc`), and a proof that the client holds the resumption secret. Send `I`, `ticket`, `encoded.nonce` and `encoded.proof` to the server.
+     */
+    public async init (): Promise<ClientResumeInit> {
+        if (this.Nc) {
+            throw new SRPError(ErrorCode.OUT_OF_ORDER, 'init() has already been called');
+        }
+
+        const Nc = this.random(RESUME_NONCE_LENGTH * 8);
+        const proof = await computeResumeProof(this.secret, 'client', this.I, [ Nc ]);
+        this.Nc = Nc;
+
+        return {
+            I: toString(this.I),
+            ticket: this.ticket,
+            raw: {
+                nonce: Nc,
+                proof,
+            },
+            encoded: {
+                nonce: toHex(Nc),
+                proof: toHex(proof),
+            },
+        };
+    }
+
+    /**
+     * Verifies the server's proof, then derives the new session key and the next resumption secret.
+     * @param nonce The server's nonce (`Ns`). If a string is provided, it must be hex encoded.
+     * @param proof The server's proof. If a string is provided, it must be hex encoded.
+     * @param ticket The next ticket, as sent by the server.
+     * @throws {SRPSecurityViolation} if the server's proof does not match its expected value.
+     */
+    public async verifyServer (nonce: string | Uint8Array, proof: string | Uint8Array, ticket: string): Promise<ClientResumeResult> {
+        if (!this.Nc) {
+            throw new SRPError(ErrorCode.OUT_OF_ORDER, 'init() must be called before verifying the server');
+        }
+
+        if (this.K) {
+            throw new SRPError(ErrorCode.OUT_OF_ORDER, 'verifyServer(...) has already been called');
+        }
+
+        if (typeof nonce === 'string') {
+            nonce = toUint8Array(nonce);
+        }
+        if (nonce.length !== RESUME_NONCE_LENGTH) {
+            throw new SRPError(ErrorCode.INVALID_INPUT, `The server's nonce must be ${RESUME_NONCE_LENGTH * 8} bits`);
+        }
+
+        if (typeof proof === 'string') {
+            proof = toUint8Array(proof);
+        }
+
+        const expected = await computeResumeProof(this.secret, 'server', this.I, [ this.Nc, nonce ]);
+        if (!timingSafeEqual(expected, proof)) {
+            throw new SRPSecurityViolation(ErrorCode.BAD_SERVER_PROOF, 'Server-supplied resumption proof does not match the expected value. The server cannot be trusted!');
+        }
+
+        const { K, next } = await deriveResumeKeys(this.secret, this.Nc, nonce);
+        this.K = K;
+
+        return {
+            ticket,
+            raw: {
+                secret: next,
+            },
+            encoded: {
+                secret: toHex(next),
+            },
+        };
+    }
+
+    /**
+     * Creates an encrypted and authenticated channel to the server, using keys derived from the new session key. This can only be called once the server has been verified with `verifyServer(...)`.
+     */
+    public async createChannel (): Promise<SecureChannel> {
+        if (!this.K) {
+            throw new SRPError(ErrorCode.OUT_OF_ORDER, 'The server must be verified before creating a channel');
+        }
+
+        return SecureChannel.create(this.K, 'client');
+    }
+}
@@ -4,11 +4,16 @@
  * License: https://github.com/knokbak/srp-auth
  */
 
-import { SRPError } from '../util/error';
-import { Group } from '../util/groups';
-import { Algorithm, hash } from '../util/hash';
-import { powMod, toBigInt, toHex, toString, toUint8Array } from '../util/math';
-import { random } from '../util/random';
+import { ExecutionBackend, inlineBackend } from '../util/backend';
+import { ErrorCode, SRPError } from '../util/error';
+import { EventEmitter, SRPObserver } from '../util/events';
+import { checkGroup, Group } from '../util/groups';
+import { Algorithm, HashProvider } from '../util/hash';
+import { KDFParams, KDFPresets } from '../util/kdf';
+import { toHex, toString, toUint8Array } from '../util/math';
+import { Normalization, normalizeIdentity, normalizePassword } from '../util/normalize';
+import { computeX, Profile } from '../util/profile';
+import { random, RandomSource } from '../util/random';
 
 export type ClientSetupConfig = {
     /**
@@ -31,10 +36,42 @@ export type ClientSetupConfig = {
      * The SRP group to use. The built-in groups are from [RFC 5054](https://datatracker.ietf.org/doc/html/rfc5054#appendix-A).
      */
     group: Group;
+    /**
+     * Allows a custom group which has not been validated with `validateGroup(...)`. Defaults to `false`. Only enable this if you trust where the group came from!
+     */
+    allowUnvalidatedGroup?: boolean;
     /**
      * The hashing algorithm to use.
      */
     algorithm: Algorithm;
+    /**
+     * The protocol profile to use. Defaults to `Profile.Legacy`. The same profile must be used when authenticating.
+     */
+    profile?: Profile;
+    /**
+     * The key derivation function used to stretch the password when computing `x`. Defaults to `KDFPresets.none`. A memory-hard KDF, such as `KDFPresets.argon2id`, is strongly recommended.
+     */
+    kdf?: KDFParams;
+    /**
+     * How the username and password are normalised before they are hashed, so that the same text typed on another device gives the same result. Defaults to `Normalization.None`. `Normalization.PRECIS` is recommended for new users.
+     */
+    normalization?: Normalization;
+    /**
+     * Computes the hashes used by SRP. Defaults to a `WASMHashProvider`. Use a `NativeHashProvider` where WebAssembly cannot be instantiated. Every provider gives the same result, so this does not need to match the other side.
+     */
+    hashProvider?: HashProvider;
+    /**
+     * Generates the salt (`s`) when `config.salt` is not provided. Defaults to `random(...)`, which uses the runtime's CSPRNG. Only replace this in tests, e.g. to replay known-answer vectors.
+     */
+    random?: RandomSource;
+    /**
+     * Runs the modular exponentiations. Defaults to an `InlineBackend`, which runs them on the calling thread. Use a `WorkerPool` to keep large groups from blocking the event loop.
+     */
+    backend?: ExecutionBackend;
+    /**
+     * Receives lifecycle events, e.g. to log or trace each setup. Use `createLogObserver(...)` or `createSpanObserver(...)`, or provide your own function. Events never include secrets.
+     */
+    observer?: SRPObserver;
 }
 
 export type ClientSetupResult = {
@@ -42,6 +79,14 @@ export type ClientSetupResult = {
      * The username in plain text. This should be sent to the server, **not the original username provided to the library**!
      */
     I: string;
+    /**
+     * The key derivation function and its parameters. These should be sent to the server and stored alongside `s` and `v`, as they are needed to authenticate.
+     */
+    kdf: KDFParams;
+    /**
+     * How the username and password were normalised. This should be sent to the server and stored alongside `s` and `v`, as it is needed to authenticate.
+     */
+    normalization: Normalization;
     raw: {
         /**
          * The verifier (`v`) as a Uint8Array.
@@ -79,49 +124,71 @@ export class ClientSetup {
     public readonly s: Uint8Array;
     public readonly group: Group;
     public readonly algorithm: Algorithm;
+    public readonly profile: Profile;
+    public readonly kdf: KDFParams;
+    public readonly normalization: Normalization;
 
+    private readonly hashProvider?: HashProvider;
+    private readonly backend: ExecutionBackend;
+    private readonly events: EventEmitter;
     /**
      * `x` is a combination of the salt (`s`) and the hashed identity (`I` and `p`).   
-     * **Computed as:** `H(s | H ( I | ":" | p) )` where `H(...)` is the chosen hashing algorithm.
+     * **Computed as:** `H(s | KDF( H ( I | ":" | p), s) )` where `H(...)` is the chosen hashing algorithm and `KDF(...)` is the chosen key derivation function.
      */
     private x?: bigint;
     /**
      * `v` is the server's password verifier, `v = gx` (mod `N`).   
      * **Computed as:** `g^x % N` where `g` is the chosen group's generator, `x` is the computed `x` value, and `N` is the chosen group's prime modulus.   
-     * **Note:** Due to limitations with BigInt, `g^x % N` must be calculated using `powMod(g, x, N)` from `util/math`.
+     * **Note:** Due to limitations with BigInt, `g^x % N` must be calculated using `powModFixed(g, x, N)` from `util/math`.
      */
     private v?: bigint;
 
+    /**
+     * @throws {SRPError} `PROHIBITED_CHARACTER` if the username or password contains a character which `config.normalization` does not allow.
+     */
     constructor (config: ClientSetupConfig) {
-        this.I = new TextEncoder().encode(config.username);
-        this.p = new TextEncoder().encode(config.password);
-        this.s = config.salt || random(config.saltLength ?? 192);
+        this.normalization = config.normalization ?? Normalization.None;
+        this.I = new TextEncoder().encode(normalizeIdentity(config.username, this.normalization));
+        this.p = new TextEncoder().encode(normalizePassword(config.password, this.normalization));
+        this.s = config.salt || (config.random ?? random)(config.saltLength ?? 192);
+        checkGroup(config.group, config.allowUnvalidatedGroup);
         this.group = config.group;
         this.algorithm = config.algorithm;
+        this.profile = config.profile ?? Profile.Legacy;
+        this.kdf = config.kdf ?? KDFPresets.none;
+        this.hashProvider = config.hashProvider;
+        this.backend = config.backend ?? inlineBackend;
+        this.events = new EventEmitter(config.observer, 'ClientSetup', config.username, this.group, this.algorithm, this.profile);
     }
 
     /**
      * Computes `v` and `s`, to be used by the server. You can send `encoded.v` and `encoded.s` to the server, along with `I`.
      */
     public async init (): Promise<ClientSetupResult> {
-        // compute x and v
-        this.x = await this.computeX();
-        this.v = await this.computeV();
+        this.events.emit('started');
+        return this.events.run(async () => {
+            // compute x and v
+            this.x = await this.events.step('x', () => this.computeX());
+            this.v = await this.events.step('v', () => this.computeV());
+            this.events.emit('completed');
 
-        const uintV = toUint8Array(this.v);
-        return {
-            // I is decoded when provided, then encoded again when returned
-            // this ensures that the client and server will decode to the same Uint8Array
-            I: toString(this.I),
-            raw: {
-                v: toUint8Array(this.v),
-                s: this.s,
-            },
-            encoded: {
-                v: toHex(uintV),
-                s: toHex(this.s),
-            },
-        };
+            const uintV = toUint8Array(this.v);
+            return {
+                // I is decoded when provided, then encoded again when returned
+                // this ensures that the client and server will decode to the same Uint8Array
+                I: toString(this.I),
+                kdf: this.kdf,
+                normalization: this.normalization,
+                raw: {
+                    v: toUint8Array(this.v),
+                    s: this.s,
+                },
+                encoded: {
+                    v: toHex(uintV),
+                    s: toHex(this.s),
+                },
+            };
+        });
     }
 
     /**
@@ -129,15 +196,8 @@ export class ClientSetup {
      */
     private async computeX (): Promise<bigint> {
         // the identity is a combination of: <username>:<password>
-        // this is then hashed using the chosen algorithm
-        const identity = await hash(this.algorithm, [ this.I, ':', this.p ]);
-
-        // the salt is then appended to the beginning of the hashed identity
-        // the result is then hashed again
-        const x = await hash(this.algorithm, [ this.s, identity ]);
-
-        // the result is then converted to a bigint for internal processing
-        return toBigInt(x);
+        // this is hashed, the salt is appended to the beginning of the hashed identity, and the result is hashed again
+        return computeX(this.profile, this.algorithm, this.I, this.p, this.s, this.kdf, this.hashProvider);
     }
 
     /**
@@ -146,11 +206,12 @@ export class ClientSetup {
     private async computeV (): Promise<bigint> {
         // x is required to compute v
         if (!this.x) {
-            throw new SRPError('X has not been computed yet');
+            throw new SRPError(ErrorCode.OUT_OF_ORDER, 'X has not been computed yet');
         }
 
         // the verifier is calculated as g ^ x % N
-        // powMod must be used, otherwise we will exceed bigint's maximum value
-        return powMod(this.group.g, this.x, this.group.N);
+        // powModFixed must be used, otherwise we will exceed bigint's maximum value
+        // it reuses a precomputed table for g, which is shared by every setup using the same group (or worker)
+        return this.backend.powModFixed(this.group.g, this.x, this.group.N);
     }
 }
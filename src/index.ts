@@ -7,14 +7,95 @@
 import { ClientSetup } from './client/setup';
 export { ClientSetup };
 
-import { ClientAuthenticate } from './client/authenticate';
-export { ClientAuthenticate };
+import { ClientAuthenticate, PasswordChangeConfig, PasswordChangeResult, ResumptionSecret } from './client/authenticate';
+export { ClientAuthenticate, PasswordChangeConfig, PasswordChangeResult, ResumptionSecret };
 
-import { Groups } from './util/groups';
-export { Groups };
+import { ClientResume, ClientResumeConfig, ClientResumeInit, ClientResumeResult } from './client/resume';
+export { ClientResume, ClientResumeConfig, ClientResumeInit, ClientResumeResult };
 
-import { Algorithm, hash } from './util/hash';
-export { Algorithm, hash };
+import { ClientHandshake } from './client/handshake';
+export { ClientHandshake };
 
-import { random } from './util/random';
-export { random };
+import { HTTPClient, HTTPClientConfig, HTTPLoginResult } from './client/http';
+export { HTTPClient, HTTPClientConfig, HTTPLoginResult };
+
+import { ServerSetup } from './server/setup';
+export { ServerSetup };
+
+import { ServerAuthenticate } from './server/authenticate';
+export { ServerAuthenticate };
+
+import { ServerResume, ServerResumeConfig, ServerResumeResult } from './server/resume';
+export { ServerResume, ServerResumeConfig, ServerResumeResult };
+
+import { ServerHandshake, ServerHandshakeConfig } from './server/handshake';
+export { ServerHandshake, ServerHandshakeConfig };
+
+import { createHTTPHandler, HTTPHandler, HTTPHandlerConfig } from './server/http';
+export { createHTTPHandler, HTTPHandler, HTTPHandlerConfig };
+
+import { DecoyConfig } from './server/decoy';
+export { DecoyConfig };
+
+import { CredentialPolicy } from './server/policy';
+export { CredentialPolicy };
+
+import { MemoryThrottleStore, Throttle, ThrottleConfig, ThrottleCounter, ThrottleLimits, ThrottleStore } from './server/throttle';
+export { MemoryThrottleStore, Throttle, ThrottleConfig, ThrottleCounter, ThrottleLimits, ThrottleStore };
+
+import { acceptPasswordReset, createPasswordReset, forcePasswordReset, PasswordResetInput } from './server/reset';
+export { acceptPasswordReset, createPasswordReset, forcePasswordReset, PasswordResetInput };
+
+import { MemoryReplayCache, ReplayCache, SealConfig } from './server/seal';
+export { MemoryReplayCache, ReplayCache, SealConfig };
+
+import { MemoryVerifierStore, StoredVerifier, VerifierStore } from './server/store';
+export { MemoryVerifierStore, StoredVerifier, VerifierStore };
+
+import { FileVerifierStore } from './server/filestore';
+export { FileVerifierStore };
+
+import { VerifierStoreTest, verifierStoreTests } from './server/conformance';
+export { VerifierStoreTest, verifierStoreTests };
+
+import { CredentialRecord, CredentialRecordInput, parseCredentials, serializeCredentials } from './server/record';
+export { CredentialRecord, CredentialRecordInput, parseCredentials, serializeCredentials };
+
+import { fromRFC3526, generateGroup, Group, GroupValidationOptions, Groups, RFC3526Groups, validateGroup } from './util/groups';
+export { fromRFC3526, generateGroup, Group, GroupValidationOptions, Groups, RFC3526Groups, validateGroup };
+
+import { ExecutionBackend, InlineBackend, WorkerPool, WorkerPoolConfig } from './util/backend';
+export { ExecutionBackend, InlineBackend, WorkerPool, WorkerPoolConfig };
+
+import { parseDHParams } from './util/dhparams';
+export { parseDHParams };
+
+import { createLogObserver, createSpanObserver, SpanTracer, SRPEvent, SRPEventType, SRPObserver, SRPStep } from './util/events';
+export { createLogObserver, createSpanObserver, SpanTracer, SRPEvent, SRPEventType, SRPObserver, SRPStep };
+
+import { Algorithm, hash, HashProvider, NativeHashProvider, WASMHashProvider } from './util/hash';
+export { Algorithm, hash, HashProvider, NativeHashProvider, WASMHashProvider };
+
+import { KDF, KDFParams, KDFPresets } from './util/kdf';
+export { KDF, KDFParams, KDFPresets };
+
+import { Normalization, normalizeIdentity, normalizePassword } from './util/normalize';
+export { Normalization, normalizeIdentity, normalizePassword };
+
+import { Profile } from './util/profile';
+export { Profile };
+
+import { ChannelRole, SecureChannel } from './util/channel';
+export { ChannelRole, SecureChannel };
+
+import { AbortMessage, ChallengeMessage, decodeMessage, encodeBinaryMessage, encodeMessage, HandshakeMessage, HelloMessage, MESSAGE_VERSION, MessageType, ProofMessage, VerifyMessage } from './util/messages';
+export { AbortMessage, ChallengeMessage, decodeMessage, encodeBinaryMessage, encodeMessage, HandshakeMessage, HelloMessage, MESSAGE_VERSION, MessageType, ProofMessage, VerifyMessage };
+
+import { ErrorCode, PolicyViolation, SRPError, SRPPolicyError, SRPRateLimitError, SRPSecurityViolation } from './util/error';
+export { ErrorCode, PolicyViolation, SRPError, SRPPolicyError, SRPRateLimitError, SRPSecurityViolation };
+
+import { random, RandomSource } from './util/random';
+export { random, RandomSource };
+
+import { UpgradePolicy, UpgradeTarget } from './util/upgrade';
+export { UpgradePolicy, UpgradeTarget };
@@ -0,0 +1,556 @@
+/*
+ * BSD 3-Clause License
+ * Copyright (c) 2024, Ollie Killean
+ * License: https://github.com/knokbak/srp-auth
+ */
+
+import { ExecutionBackend, inlineBackend } from '../util/backend';
+import { SecureChannel } from '../util/channel';
+import { checkPublicKey, checkSalt, checkScrambler, checkVerifier } from '../util/checks';
+import { decryptCredentials } from '../util/credentials';
+import { ErrorCode, SRPError, SRPSecurityViolation } from '../util/error';
+import { EventEmitter, SRPObserver } from '../util/events';
+import { checkGroup, Group } from '../util/groups';
+import { Algorithm, HashProvider } from '../util/hash';
+import { KDFParams, KDFPresets } from '../util/kdf';
+import { timingSafeEqual, toBigInt, toHex, toString, toUint8Array } from '../util/math';
+import { Normalization } from '../util/normalize';
+import { computeBinding, computeK, computeM1, computeM2, computeSessionKey, computeU, Profile } from '../util/profile';
+import { random, RandomSource } from '../util/random';
+import { deriveResumptionSecret } from '../util/resume';
+import { getUpgradeTarget, matchesTarget, UpgradePolicy, UpgradeTarget } from '../util/upgrade';
+import { createDecoy, DecoyConfig } from './decoy';
+import { CredentialPolicy } from './policy';
+import { CredentialRecord } from './record';
+import { issueTicket } from './resume';
+import { seal, SealConfig, unseal } from './seal';
+import { VerifierStore } from './store';
+import { Throttle } from './throttle';
+
+export type ServerAuthenticateConfig = {
+    /**
+     * The user's identity (`I`) in plain text, as stored by `ServerSetup`.
+     */
+    I: string;
+    /**
+     * The user's salt (`s`), as stored by `ServerSetup`. If a string is provided, it must be hex encoded.
+     */
+    s: string | Uint8Array;
+    /**
+     * The user's verifier (`v`), as stored by `ServerSetup`. If a string is provided, it must be hex encoded.
+     */
+    v: string | Uint8Array;
+    /**
+     * The SRP group that was used when the user's credentials were set up.
+     */
+    group: Group;
+    /**
+     * Allows a custom group which has not been validated with `validateGroup(...)`. Defaults to `false`. Only enable this if you trust where the group came from!
+     */
+    allowUnvalidatedGroup?: boolean;
+    /**
+     * The hashing algorithm that was used when the user's credentials were set up.
+     */
+    algorithm: Algorithm;
+    /**
+     * The protocol profile that was used when the user's credentials were set up. Defaults to `Profile.Legacy`.
+     */
+    profile?: Profile;
+    /**
+     * The key derivation function that was used when the user's credentials were set up, as stored by `ServerSetup`. Defaults to `KDFPresets.none`.
+     */
+    kdf?: KDFParams;
+    /**
+     * How the username and password were normalised when the user's credentials were set up, as stored by `ServerSetup`. Defaults to `Normalization.None`.
+     */
+    normalization?: Normalization;
+    /**
+     * Limits how often `M1` can be guessed. If the user or client is locked out, `init(...)` throws before `B` is computed.
+     */
+    throttle?: Throttle;
+    /**
+     * Identifies the client to `throttle`, e.g. its IP address.
+     */
+    clientKey?: string;
+    /**
+     * A string identifying the application or service, e.g. `"example.com login"`. If provided, it is mixed into `M1` and `M2`, so that a proof cannot be relayed to another service. The client must use the same context.
+     */
+    context?: string;
+    /**
+     * Data identifying the underlying connection, e.g. a TLS exporter value or a WebSocket session ID. If provided, it is mixed into `M1` and `M2`, so that a proof cannot be relayed to another connection. The client must use the same value. If a string is provided, it must be hex encoded.
+     */
+    channelBinding?: string | Uint8Array;
+    /**
+     * Computes the hashes used by SRP. Defaults to a `WASMHashProvider`. Use a `NativeHashProvider` where WebAssembly cannot be instantiated. Every provider gives the same result, so this does not need to match the other side.
+     */
+    hashProvider?: HashProvider;
+    /**
+     * Generates the server's ephemeral secret (`b`). Defaults to `random(...)`, which uses the runtime's CSPRNG. Only replace this in tests, e.g. to replay known-answer vectors.
+     */
+    random?: RandomSource;
+    /**
+     * Runs the modular exponentiations. Defaults to an `InlineBackend`, which runs them on the calling thread. Use a `WorkerPool` to keep large groups from blocking the event loop.
+     */
+    backend?: ExecutionBackend;
+    /**
+     * Receives lifecycle events, e.g. to log or trace each handshake. Use `createLogObserver(...)` or `createSpanObserver(...)`, or provide your own function. Events never include secrets.
+     */
+    observer?: SRPObserver;
+    /**
+     * The group, algorithm, profile, KDF and normalisation that every user should have. If the user's credentials are older, `init(...)` returns an `upgrade` target, so that the client can send new credentials with `M1`.
+     */
+    upgrade?: UpgradePolicy;
+    /**
+     * The rules that new credentials from `changePassword(...)` and `upgrade(...)` must follow, e.g. the same policy as `ServerSetup`. The basic safety checks always apply, even without a policy.
+     */
+    policy?: CredentialPolicy;
+}
+
+export type ServerAuthenticateInit = {
+    /**
+     * The key derivation function and its parameters. This should be sent to the client, along with `encoded.B` and `encoded.s`.
+     */
+    kdf: KDFParams;
+    /**
+     * How the username and password were normalised. This should be sent to the client too, which can pass it to `exchange(...)`.
+     */
+    normalization: Normalization;
+    /**
+     * The parameters that the user's credentials should be upgraded to, if they do not match `config.upgrade`. This should be sent to the client too, which can pass it to `upgrade(...)`.
+     */
+    upgrade?: UpgradeTarget;
+    raw: {
+        /**
+         * The server's ephemeral session key (`B`) as a Uint8Array.
+         */
+        B: Uint8Array;
+        /**
+         * The user's salt (`s`) as a Uint8Array.
+         */
+        s: Uint8Array;
+    }
+    encoded: {
+        /**
+         * The server's ephemeral session key (`B`) encoded as hex.
+         */
+        B: string;
+        /**
+         * The user's salt (`s`) encoded as hex.
+         */
+        s: string;
+    }
+}
+
+export type ServerAuthenticateResult = {
+    raw: {
+        /**
+         * The server's authentication key (`M2`), derived from `A`, `M1` and `K`, as a Uint8Array.
+         */
+        M2: Uint8Array;
+    }
+    encoded: {
+        /**
+         * The server's authentication key (`M2`) encoded as hex.
+         */
+        M2: string;
+    }
+}
+
+type SealedState = {
+    I: string;
+    s: string;
+    v: string;
+    g: string;
+    N: string;
+    algorithm: Algorithm;
+    profile: Profile;
+    kdf: KDFParams;
+    normalization: Normalization;
+    A: string;
+    B: string;
+    K: string;
+}
+
+export class ServerAuthenticate {
+    public readonly I: Uint8Array;
+    public readonly s: Uint8Array;
+    public readonly group: Group;
+    public readonly algorithm: Algorithm;
+    public readonly profile: Profile;
+    public readonly kdf: KDFParams;
+    public readonly normalization: Normalization;
+
+    private v: bigint;
+    private throttle?: Throttle;
+    private clientKey?: string;
+    private hashProvider?: HashProvider;
+    private random: RandomSource;
+    private backend: ExecutionBackend;
+    private events: EventEmitter;
+    private upgradeTarget?: UpgradeTarget;
+    private policy?: CredentialPolicy;
+    private context?: string;
+    private channelBinding?: Uint8Array;
+    private b?: bigint;
+    private A?: bigint;
+    private B?: bigint;
+    private u?: bigint;
+
+    private S?: bigint;
+    private K?: Uint8Array;
+    private attempted = false;
+    private verified = false;
+
+    /**
+     * @throws {SRPSecurityViolation} if `s` or `v` are invalid.
+     */
+    constructor (config: ServerAuthenticateConfig) {
+        this.I = new TextEncoder().encode(config.I);
+        this.s = typeof config.s === 'string' ? toUint8Array(config.s) : config.s;
+        this.v = typeof config.v === 'string' ? BigInt(`0x${config.v}`) : toBigInt(config.v);
+        checkGroup(config.group, config.allowUnvalidatedGroup);
+        checkSalt(this.s);
+        checkVerifier(this.v, config.group);
+        this.group = config.group;
+        this.algorithm = config.algorithm;
+        this.profile = config.profile ?? Profile.Legacy;
+        this.kdf = config.kdf ?? KDFPresets.none;
+        this.normalization = config.normalization ?? Normalization.None;
+        this.throttle = config.throttle;
+        this.clientKey = config.clientKey;
+        this.hashProvider = config.hashProvider;
+        this.random = config.random ?? random;
+        this.backend = config.backend ?? inlineBackend;
+        this.events = new EventEmitter(config.observer, 'ServerAuthenticate', config.I, this.group, this.algorithm, this.profile);
+        this.upgradeTarget = config.upgrade && getUpgradeTarget(config.I, this, config.upgrade);
+        this.policy = config.policy;
+        this.context = config.context;
+        this.channelBinding = typeof config.channelBinding === 'string' ? toUint8Array(config.channelBinding) : config.channelBinding;
+    }
+
+    /**
+     * Looks up the user's credentials in a `VerifierStore`, and starts a handshake with them.
+     * @param store The store that the user's credentials were saved to.
+     * @param I The user's identity (`I`), as sent by the client.
+     * @param options If `decoy` is provided, unknown users are given a decoy handshake (see `ServerAuthenticate.decoy(...)`) instead of an error.
+     * @throws {SRPError} `UNKNOWN_USER` if the user does not exist, and `decoy` is not provided.
+     */
+    public static async fromStore (store: VerifierStore, I: string, options?: Pick<ServerAuthenticateConfig, 'allowUnvalidatedGroup' | 'throttle' | 'clientKey' | 'hashProvider' | 'backend' | 'observer' | 'context' | 'channelBinding' | 'upgrade' | 'policy'> & { decoy?: DecoyConfig }): Promise<ServerAuthenticate> {
+        const { decoy, ...shared } = options ?? {};
+        const stored = await store.get(I);
+        if (!stored) {
+            if (decoy) {
+                return ServerAuthenticate.decoy(I, { ...decoy, ...shared });
+            }
+            throw new SRPError(ErrorCode.UNKNOWN_USER, 'The user does not exist');
+        }
+
+        return new ServerAuthenticate({
+            ...shared,
+            I,
+            s: stored.s,
+            v: stored.v,
+            group: stored.group,
+            algorithm: stored.algorithm,
+            profile: stored.profile,
+            kdf: stored.kdf,
+            normalization: stored.normalization,
+        });
+    }
+
+    /**
+     * Starts a decoy handshake for a user who does not exist, so that attackers cannot tell which users exist. The salt (`s`) is derived from `I` and `config.secret`, so it is the same every time the same user is probed. The handshake does the same work as a real one, and fails at `authenticate(...)` exactly like a wrong password.
+     * > ⚠️ **Warning**: Your own code must also avoid revealing whether the user exists, e.g. by taking noticeably less time to look them up.
+     * @param I The user's identity (`I`), as sent by the client.
+     * @param config The server's decoy secret, and the group, algorithm, profile, KDF and normalisation that real users have.
+     */
+    public static async decoy (I: string, config: DecoyConfig): Promise<ServerAuthenticate> {
+        const { s, v } = await createDecoy(I, config);
+        const { secret, saltLength, ...shared } = config;
+        return new ServerAuthenticate({ ...shared, I, s, v });
+    }
+
+    /**
+     * Computes `B`, the server's ephemeral session key, along with `u`, `S` and `K`. `encoded.B`, `encoded.s`, `kdf` and `normalization` should be sent back to the client.
+     * @param A The client's ephemeral session key (`A`), which should be provided by the client. If a string is provided, it must be hex encoded.
+     * @throws {SRPSecurityViolation} if `A` or `u` fail the RFC 5054 safety checks.
+     * @throws {SRPRateLimitError} if `throttle` is set, and the user or client is locked out or must wait before trying again.
+     */
+    public async init (A: string | Uint8Array): Promise<ServerAuthenticateInit> {
+        this.events.emit('started');
+        return this.events.run(async () => {
+            if (this.A) {
+                throw new SRPError(ErrorCode.OUT_OF_ORDER, 'init(...) has already been called');
+            }
+
+            // refuse locked out users before doing any work
+            await this.throttle?.check(toString(this.I), this.clientKey);
+
+            if (typeof A === 'string') {
+                A = toUint8Array(A);
+            }
+            // A must be less than N and must not be 0 (mod N)
+            this.A = checkPublicKey('A', A, this.group);
+
+            this.B = await this.computeB();
+
+            this.u = await this.events.step('u', () => this.computeU());
+            checkScrambler(this.u);
+
+            const S = await this.events.step('S', () => this.computeS());
+            this.S = S;
+            this.K = await this.events.step('K', () => computeSessionKey(this.profile, this.algorithm, S, this.hashProvider));
+
+            const B = toUint8Array(this.B);
+            return {
+                kdf: this.kdf,
+                normalization: this.normalization,
+                upgrade: this.upgradeTarget,
+                raw: {
+                    B,
+                    s: this.s,
+                },
+                encoded: {
+                    B: toHex(B),
+                    s: toHex(this.s),
+                },
+            };
+        });
+    }
+
+    private async computeB (): Promise<bigint> {
+        // generate a random 256 bit value (ephemeral session key)
+        const b = toBigInt(this.random(256));
+        this.b = b;
+
+        // B = (k * v + g ^ b) % N
+        const k = await this.events.step('k', () => this.computeK());
+        return this.events.step('B', async () => (k * this.v + await this.backend.powModFixed(this.group.g, b, this.group.N)) % this.group.N);
+    }
+
+    private async computeU (): Promise<bigint> {
+        if (!this.A || !this.B) {
+            throw new SRPError(ErrorCode.OUT_OF_ORDER, 'A and B must be set before computing u');
+        }
+
+        // U = H(A, B)
+        return computeU(this.profile, this.algorithm, this.group, this.A, this.B, this.hashProvider);
+    }
+
+    private async computeS (): Promise<bigint> {
+        if (!this.A || !this.b || !this.u) {
+            throw new SRPError(ErrorCode.OUT_OF_ORDER, 'A, b, and u must be set before computing S');
+        }
+
+        // S = (A * v ^ u) ^ b % N
+        const N = this.group.N;
+        return this.backend.powMod(this.A * await this.backend.powMod(this.v, this.u, N), this.b, N);
+    }
+
+    private async computeK (): Promise<bigint> {
+        return computeK(this.profile, this.algorithm, this.group, this.hashProvider);
+    }
+
+    /**
+     * Verifies the client's authentication key (`M1`), then computes `M2` which the client can use to verify the server's authenticity. Only one attempt is allowed per handshake; if `M1` is wrong, the client must start again.
+     * > ⚠️ **Warning**: `authenticate(...)` will throw an `SRPSecurityViolation` if `M1` does not match its expected value. The client has either supplied the wrong password or is not genuine, and **must not** be authenticated.
+     * @param M1 The client's authentication key (`M1`), which should be provided by the client. If a string is provided, it must be hex encoded.
+     * @throws {SRPSecurityViolation} if `M1` does not match its expected value.
+     * @throws {SRPRateLimitError} if `throttle` is set, and the user or client was locked out since `init(...)` was called.
+     */
+    public async authenticate (M1: string | Uint8Array): Promise<ServerAuthenticateResult> {
+        return this.events.run(async () => {
+            if (!this.A || !this.B || !this.K) {
+                throw new SRPError(ErrorCode.OUT_OF_ORDER, 'A, B, and K must be set before authenticating');
+            }
+
+            if (this.attempted) {
+                throw new SRPError(ErrorCode.OUT_OF_ORDER, 'authenticate(...) has already been called for this handshake');
+            }
+            this.attempted = true;
+
+            // other handshakes may have failed since init(...) was called, or may be checking M1 right now
+            await this.throttle?.check(toString(this.I), this.clientKey);
+            await this.throttle?.reserve(toString(this.I), this.clientKey);
+
+            // M1 = H(H(N) XOR H(g), I, s, A, B, K[, T])
+            const { A, B, K } = this;
+            const received = typeof M1 === 'string' ? toUint8Array(M1) : M1;
+            let T: Uint8Array | undefined;
+            let expected: Uint8Array;
+            try {
+                T = await computeBinding(this.algorithm, this.context, this.channelBinding, this.hashProvider);
+                expected = await this.events.step('M1', () => computeM1(this.profile, this.algorithm, this.group, this.I, this.s, A, B, K, T, this.hashProvider));
+            } catch (err) {
+                await this.throttle?.release(toString(this.I), this.clientKey);
+                throw err;
+            }
+
+            if (!timingSafeEqual(expected, received)) {
+                await this.throttle?.failure(toString(this.I), this.clientKey);
+                throw new SRPSecurityViolation(ErrorCode.BAD_CLIENT_PROOF, 'Client-supplied M1 does not match the expected value. The client has either supplied the wrong password, or is not genuine!');
+            }
+
+            this.verified = true;
+            this.events.emit('proof-verified');
+            await this.throttle?.success(toString(this.I), this.clientKey);
+
+            // M2 = H(A, M1, K[, T])
+            const M2 = await this.events.step('M2', () => computeM2(this.profile, this.algorithm, A, received, K, T, this.hashProvider));
+            return {
+                raw: {
+                    M2,
+                },
+                encoded: {
+                    M2: toHex(M2),
+                },
+            };
+        });
+    }
+
+    /**
+     * Decrypts the new credentials sent by the client's `changePassword(...)`. This can only be called once `authenticate(...)` has verified `M1`, which proves that the user knows their current password. Store the result in place of the user's current credentials, e.g. with `store.update(...)`.
+     * @param payload The encrypted payload, which should be provided by the client. If a string is provided, it must be hex encoded.
+     * @throws {SRPSecurityViolation} if the payload has been modified, was created for another handshake or user, or contains an invalid salt or verifier.
+     * @throws {SRPError} if the new group has not been validated, or the new algorithm, profile or KDF is unknown.
+     * @throws {SRPPolicyError} listing every requirement of `config.policy` that the new credentials do not meet.
+     */
+    public async changePassword (payload: string | Uint8Array): Promise<CredentialRecord> {
+        if (!this.K || !this.verified) {
+            throw new SRPError(ErrorCode.OUT_OF_ORDER, 'The client must be verified before changing the password');
+        }
+
+        if (typeof payload === 'string') {
+            payload = toUint8Array(payload);
+        }
+
+        return decryptCredentials(this.K, this.I, payload, this.policy);
+    }
+
+    /**
+     * Decrypts the upgraded credentials sent by the client's `upgrade(...)`, and checks that they match the upgrade policy. This can only be called once `authenticate(...)` has verified `M1`, and only if `init(...)` returned an `upgrade` target.
+     * @param payload The encrypted payload, which should be provided by the client. If a string is provided, it must be hex encoded.
+     * @param store If provided, the user's credentials are replaced in the store, as long as they are still the ones that this handshake authenticated against.
+     * @throws {SRPSecurityViolation} if the payload has been modified, was created for another handshake or user, or contains an invalid salt or verifier.
+     * @throws {SRPError} `INVALID_INPUT` if the credentials do not match the upgrade policy, or `CONFLICT` if the stored credentials have changed since the handshake started.
+     * @throws {SRPPolicyError} listing every requirement of `config.policy` that the new credentials do not meet.
+     */
+    public async upgrade (payload: string | Uint8Array, store?: VerifierStore): Promise<CredentialRecord> {
+        if (!this.K || !this.verified) {
+            throw new SRPError(ErrorCode.OUT_OF_ORDER, 'The client must be verified before upgrading its credentials');
+        }
+
+        if (!this.upgradeTarget) {
+            throw new SRPError(ErrorCode.INVALID_INPUT, 'The user\'s credentials do not need to be upgraded');
+        }
+
+        if (typeof payload === 'string') {
+            payload = toUint8Array(payload);
+        }
+
+        const record = await decryptCredentials(this.K, this.I, payload, this.policy);
+        if (!matchesTarget(record, this.upgradeTarget)) {
+            throw new SRPError(ErrorCode.INVALID_INPUT, 'The upgraded credentials do not match the upgrade policy');
+        }
+
+        if (store) {
+            const I = toString(this.I);
+            const current = await store.get(I);
+
+            // never overwrite a password that was changed while this handshake was in progress
+            if (!current || toHex(current.s) !== toHex(this.s) || toBigInt(current.v) !== this.v) {
+                throw new SRPError(ErrorCode.CONFLICT, `The user "${I}" has been changed since the handshake started`);
+            }
+            await store.update(I, record, current.version);
+        }
+        return record;
+    }
+
+    /**
+     * Issues a single-use ticket for the user (`I`), which lets the client resume the session later with `ClientResume`, without the password or verifier. The ticket contains the resumption secret (`RS`) derived from `K`, encrypted and authenticated under `config.key`. This can only be called once the client has been verified with `authenticate(...)`.
+     * @param config The server's sealing key, and the replay cache to use. `ttl` defaults to `86400000` (24 hours).
+     */
+    public async createTicket (config: SealConfig): Promise<string> {
+        if (!this.K || !this.verified) {
+            throw new SRPError(ErrorCode.OUT_OF_ORDER, 'The client must be verified before creating a ticket');
+        }
+
+        return issueTicket(toString(this.I), await deriveResumptionSecret(this.K), config);
+    }
+
+    /**
+     * Creates an encrypted and authenticated channel to the client, using keys derived from the shared session key (`K`). This can only be called once the client has been verified with `authenticate(...)`.
+     */
+    public async createChannel (): Promise<SecureChannel> {
+        if (!this.K || !this.verified) {
+            throw new SRPError(ErrorCode.OUT_OF_ORDER, 'The client must be verified before creating a channel');
+        }
+
+        return SecureChannel.create(this.K, 'server');
+    }
+
+    /**
+     * Seals the in-flight handshake into an opaque token, which is encrypted and authenticated under `config.key`. This allows any server holding the same key to call `ServerAuthenticate.unseal(...)` and finish verifying `M1`, without the server remembering anything between sending `B` and receiving `M1`.
+     * > ⚠️ **Warning**: The token is encrypted, so it can be sent to the client and returned along with `M1`. However, it contains the session key (`K`), so `config.key` must be kept secret.
+     * @param config The server's sealing key, and how long the token is valid for.
+     */
+    public async seal (config: SealConfig): Promise<string> {
+        if (!this.A || !this.B || !this.K) {
+            throw new SRPError(ErrorCode.OUT_OF_ORDER, 'A, B, and K must be set before sealing');
+        }
+
+        return seal<SealedState>('server-authenticate', {
+            I: toString(this.I),
+            s: toHex(this.s),
+            v: toHex(this.v),
+            g: toHex(this.group.g),
+            N: toHex(this.group.N),
+            algorithm: this.algorithm,
+            profile: this.profile,
+            kdf: this.kdf,
+            normalization: this.normalization,
+            A: toHex(this.A),
+            B: toHex(this.B),
+            K: toHex(this.K),
+        }, config);
+    }
+
+    /**
+     * Restores a handshake sealed by `seal(...)`, so that `authenticate(...)` can be called. Each token can only be unsealed once.
+     * @param token The token created by `seal(...)`.
+     * @param config The server's sealing key, and the replay cache to use.
+     * @param options The throttle to record the attempt with, the hash provider, observer, upgrade policy and credential policy to use, and the context and channel binding of the connection that `M1` arrived on. These are not sealed, so they must be provided again.
+     * @throws {SRPSecurityViolation} if the token has been modified, has expired, or has already been unsealed.
+     */
+    public static async unseal (token: string, config: SealConfig, options?: Pick<ServerAuthenticateConfig, 'throttle' | 'clientKey' | 'hashProvider' | 'observer' | 'context' | 'channelBinding' | 'upgrade' | 'policy'>): Promise<ServerAuthenticate> {
+        const state = await unseal<SealedState>('server-authenticate', token, config);
+
+        const authenticate = new ServerAuthenticate({
+            I: state.I,
+            s: state.s,
+            v: state.v,
+            group: {
+                g: BigInt(`0x${state.g}`),
+                N: BigInt(`0x${state.N}`),
+            },
+            // the group was checked before it was sealed
+            allowUnvalidatedGroup: true,
+            algorithm: state.algorithm,
+            profile: state.profile,
+            kdf: state.kdf,
+            normalization: state.normalization,
+            throttle: options?.throttle,
+            clientKey: options?.clientKey,
+            hashProvider: options?.hashProvider,
+            observer: options?.observer,
+            context: options?.context,
+            channelBinding: options?.channelBinding,
+            upgrade: options?.upgrade,
+            policy: options?.policy,
+        });
+        authenticate.A = BigInt(`0x${state.A}`);
+        authenticate.B = BigInt(`0x${state.B}`);
+        authenticate.K = toUint8Array(state.K);
+        return authenticate;
+    }
+}
@@ -0,0 +1,197 @@
+/*
+ * BSD 3-Clause License
+ * Copyright (c) 2024, Ollie Killean
+ * License: https://github.com/knokbak/srp-auth
+ */
+
+import { ErrorCode, SRPError } from '../util/error';
+import { Groups } from '../util/groups';
+import { Algorithm } from '../util/hash';
+import { KDF } from '../util/kdf';
+import { toHex } from '../util/math';
+import { Normalization } from '../util/normalize';
+import { Profile } from '../util/profile';
+import { random } from '../util/random';
+import { CredentialRecord } from './record';
+import { StoredVerifier, VerifierStore } from './store';
+
+export type VerifierStoreTest = {
+    name: string;
+    run: () => Promise<void>;
+}
+
+/**
+ * Returns a conformance suite for a `VerifierStore` adapter. Each test is framework-agnostic: it throws if the adapter misbehaves. For example, with `node:test`:
+ *
+ * ```ts
+ * for (const { name, run } of verifierStoreTests(() => new MyStore())) {
+ *     test(name, run);
+ * }
+ * ```
+ * @param createStore Creates a new, empty store. This is called once per test.
+ */
+export function verifierStoreTests (createStore: () => VerifierStore | Promise<VerifierStore>): VerifierStoreTest[] {
+    const test = (name: string, run: (store: VerifierStore) => Promise<void>): VerifierStoreTest => ({
+        name,
+        run: async () => run(await createStore()),
+    });
+
+    return [
+        test('get() returns undefined for an unknown user', async (store) => {
+            expect(await store.get('unknown') === undefined, 'expected undefined');
+        }),
+
+        test('put() stores a record with version 1', async (store) => {
+            const record = createRecord();
+            const stored = await store.put('alice', record);
+            expectRecord(stored, record, 1);
+            expectRecord(await store.get('alice'), record, 1);
+        }),
+
+        test('put() preserves the profile, KDF and normalization', async (store) => {
+            const record = createRecord({ profile: Profile.RFC5054, kdf: { kdf: KDF.Argon2id, iterations: 3, memorySize: 65536, parallelism: 2 }, normalization: Normalization.PRECIS });
+            await store.put('alice', record);
+            expectRecord(await store.get('alice'), record, 1);
+        }),
+
+        test('put() rejects an existing user with CONFLICT', async (store) => {
+            const record = createRecord();
+            await store.put('alice', record);
+            await expectError(store.put('alice', createRecord()), ErrorCode.CONFLICT);
+            expectRecord(await store.get('alice'), record, 1);
+        }),
+
+        test('update() replaces the record and increments the version', async (store) => {
+            await store.put('alice', createRecord());
+            const record = createRecord();
+            expectRecord(await store.update('alice', record, 1), record, 2);
+            expectRecord(await store.get('alice'), record, 2);
+        }),
+
+        test('update() rejects a stale version with CONFLICT', async (store) => {
+            const record = createRecord();
+            await store.put('alice', createRecord());
+            await store.update('alice', record, 1);
+            await expectError(store.update('alice', createRecord(), 1), ErrorCode.CONFLICT);
+            expectRecord(await store.get('alice'), record, 2);
+        }),
+
+        test('update() rejects an unknown user with UNKNOWN_USER', async (store) => {
+            await expectError(store.update('unknown', createRecord(), 1), ErrorCode.UNKNOWN_USER);
+            expect(await store.get('unknown') === undefined, 'update() must not create the user');
+        }),
+
+        test('only one concurrent update() with the same version succeeds', async (store) => {
+            await store.put('alice', createRecord());
+            const results = await Promise.allSettled([
+                store.update('alice', createRecord(), 1),
+                store.update('alice', createRecord(), 1),
+                store.update('alice', createRecord(), 1),
+            ]);
+
+            const fulfilled = results.filter((result) => result.status === 'fulfilled');
+            expect(fulfilled.length === 1, `expected 1 update to succeed, but ${fulfilled.length} did`);
+            for (const result of results) {
+                if (result.status === 'rejected') {
+                    expect(result.reason instanceof SRPError && result.reason.code === ErrorCode.CONFLICT, 'expected the other updates to fail with CONFLICT');
+                }
+            }
+
+            const winner = (fulfilled[0] as PromiseFulfilledResult<StoredVerifier>).value;
+            expectRecord(await store.get('alice'), winner, 2);
+        }),
+
+        test('delete() removes the user', async (store) => {
+            await store.put('alice', createRecord());
+            expect(await store.delete('alice') === true, 'expected delete() to return true');
+            expect(await store.get('alice') === undefined, 'expected the user to be deleted');
+            await store.put('alice', createRecord());
+        }),
+
+        test('delete() returns false for an unknown user', async (store) => {
+            expect(await store.delete('unknown') === false, 'expected delete() to return false');
+        }),
+
+        test('delete() rejects a stale version with CONFLICT', async (store) => {
+            const record = createRecord();
+            await store.put('alice', createRecord());
+            await store.update('alice', record, 1);
+            await expectError(store.delete('alice', 1), ErrorCode.CONFLICT);
+            expectRecord(await store.get('alice'), record, 2);
+            expect(await store.delete('alice', 2) === true, 'expected delete() to return true');
+        }),
+
+        test('users are stored independently', async (store) => {
+            const alice = createRecord();
+            const bob = createRecord();
+            await store.put('alice', alice);
+            await store.put('bob', bob);
+            await store.delete('alice');
+            expectRecord(await store.get('bob'), bob, 1);
+        }),
+
+        test('identities are case-sensitive and may contain any character', async (store) => {
+            const lower = createRecord();
+            const upper = createRecord();
+            await store.put('élodie@example.com', lower);
+            await store.put('ÉLODIE@example.com', upper);
+            expectRecord(await store.get('élodie@example.com'), lower, 1);
+            expectRecord(await store.get('ÉLODIE@example.com'), upper, 1);
+            expect(await store.get('__proto__') === undefined, 'expected undefined for "__proto__"');
+        }),
+
+        test('returned records cannot modify the store', async (store) => {
+            const record = createRecord();
+            const stored = await store.put('alice', record);
+            stored.s.fill(0);
+            stored.version = 100;
+            const fetched = await store.get('alice');
+            fetched?.v.fill(0);
+            expectRecord(await store.get('alice'), record, 1);
+        }),
+    ];
+}
+
+function createRecord (overrides?: Partial<CredentialRecord>): CredentialRecord {
+    const v = random(2040);
+    v[0] |= 1;
+    return {
+        s: random(192),
+        v,
+        group: Groups.b2048,
+        algorithm: Algorithm.SHA3_512,
+        profile: Profile.Legacy,
+        kdf: { kdf: KDF.None },
+        ...overrides,
+    };
+}
+
+function expect (condition: boolean, message: string): void {
+    if (!condition) {
+        throw new Error(`VerifierStore conformance: ${message}`);
+    }
+}
+
+function expectRecord (actual: StoredVerifier | undefined, expected: CredentialRecord, version: number): void {
+    expect(actual !== undefined, 'expected a record, but got undefined');
+    const record = actual as StoredVerifier;
+    expect(record.version === version, `expected version ${version}, but got ${record.version}`);
+    expect(toHex(record.s) === toHex(expected.s), 's does not match');
+    expect(toHex(record.v) === toHex(expected.v), 'v does not match');
+    expect(record.group.g === expected.group.g && record.group.N === expected.group.N, 'group does not match');
+    expect(record.algorithm === expected.algorithm, 'algorithm does not match');
+    expect(record.profile === expected.profile, 'profile does not match');
+    expect(JSON.stringify(record.kdf) === JSON.stringify(expected.kdf), 'kdf does not match');
+    // a missing normalization means Normalization.None, as in records stored before it was supported
+    expect((record.normalization ?? Normalization.None) === (expected.normalization ?? Normalization.None), 'normalization does not match');
+}
+
+async function expectError (promise: Promise<unknown>, code: ErrorCode): Promise<void> {
+    try {
+        await promise;
+    } catch (err) {
+        expect(err instanceof SRPError && err.code === code, `expected an SRPError with code ${code}, but got ${err}`);
+        return;
+    }
+    expect(false, `expected an SRPError with code ${code}, but nothing was thrown`);
+}
@@ -0,0 +1,43 @@
+/*
+ * BSD 3-Clause License
+ * Copyright (c) 2024, Ollie Killean
+ * License: https://github.com/knokbak/srp-auth
+ */
+
+import { hkdf } from '../util/cipher';
+import { ErrorCode, SRPError } from '../util/error';
+import { toBigInt, toUint8Array } from '../util/math';
+import type { ServerAuthenticateConfig } from './authenticate';
+
+export type DecoyConfig = Omit<ServerAuthenticateConfig, 'I' | 's' | 'v'> & {
+    /**
+     * A server-held secret, used to derive each unknown user's fake salt and verifier. This must be at least 256 bits, and should be the same on every server and kept between restarts, so that repeated probes see the same salt. If a string is provided, it must be hex encoded.
+     */
+    secret: string | Uint8Array;
+    /**
+     * The length of the fake salt, in bits. This should match the length of your real users' salts. Defaults to `192`, the same as `ClientSetup`.
+     */
+    saltLength?: number;
+}
+
+/**
+ * Derives a stable, fake salt (`s`) and verifier (`v`) for an unknown identity (`I`). Nobody knows the password behind the verifier, so authentication always fails at `M1`, exactly like a wrong password.
+ * @internal Use `ServerAuthenticate.decoy(...)` instead.
+ */
+export async function createDecoy (I: string, config: DecoyConfig): Promise<{ s: Uint8Array; v: Uint8Array }> {
+    const secret = typeof config.secret === 'string' ? toUint8Array(config.secret) : config.secret;
+    if (secret.length < 32) {
+        throw new SRPError(ErrorCode.INVALID_INPUT, 'The decoy secret must be at least 256 bits');
+    }
+
+    const N = config.group.N;
+    const identity = new TextEncoder().encode(I);
+    const [s, rawV] = await Promise.all([
+        hkdf(secret, identity, 'srp-auth decoy salt', Math.ceil((config.saltLength ?? 192) / 8)),
+        // 128 extra bits, so that v is uniformly distributed after reducing it modulo N
+        hkdf(secret, identity, 'srp-auth decoy verifier', Math.ceil(N.toString(16).length / 2) + 16),
+    ]);
+
+    const v = toBigInt(rawV) % (N - 1n) + 1n;
+    return { s, v: toUint8Array(v) };
+}
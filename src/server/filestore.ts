@@ -0,0 +1,145 @@
+/*
+ * BSD 3-Clause License
+ * Copyright (c) 2024, Ollie Killean
+ * License: https://github.com/knokbak/srp-auth
+ */
+
+import type { promises as FS } from 'fs';
+import { ErrorCode, SRPError } from '../util/error';
+import { toHex } from '../util/math';
+import { random } from '../util/random';
+import { CredentialRecord, parseCredentials, serializeCredentials } from './record';
+import { checkVersion, StoredVerifier, VerifierStore } from './store';
+
+/**
+ * The current version of the file format.
+ */
+const FILE_VERSION = 1;
+
+type StoreFile = {
+    v: number;
+    users: Record<string, {
+        /**
+         * The credentials, serialised by `serializeCredentials(...)`.
+         */
+        record: string;
+        version: number;
+    }>;
+}
+
+/**
+ * Keeps credentials in a single JSON file. Every write replaces the whole file atomically, so the file is never left half-written, even if the process crashes.
+ *
+ * Credentials are stored in the format used by `serializeCredentials(...)`, so only the built-in `Groups` are supported.
+ * > ⚠️ **Warning**: Writes are only coordinated within a single process. Do not share the file between processes; use a database adapter instead.
+ */
+export class FileVerifierStore implements VerifierStore {
+    private readonly path: string;
+    private queue: Promise<unknown> = Promise.resolve();
+
+    /**
+     * @param path The JSON file to use. It is created on the first write if it does not exist.
+     */
+    constructor (path: string) {
+        this.path = path;
+    }
+
+    public async get (I: string): Promise<StoredVerifier | undefined> {
+        return this.run(async (file) => toEntry(file, I));
+    }
+
+    public async put (I: string, record: CredentialRecord): Promise<StoredVerifier> {
+        return this.run(async (file) => {
+            if (Object.prototype.hasOwnProperty.call(file.users, I)) {
+                throw new SRPError(ErrorCode.CONFLICT, `The user "${I}" already exists`);
+            }
+
+            file.users[I] = { record: serializeCredentials(record), version: 1 };
+            await this.write(file);
+            return toEntry(file, I) as StoredVerifier;
+        });
+    }
+
+    public async update (I: string, record: CredentialRecord, expectedVersion: number): Promise<StoredVerifier> {
+        return this.run(async (file) => {
+            checkVersion(I, toEntry(file, I), expectedVersion);
+
+            file.users[I] = { record: serializeCredentials(record), version: expectedVersion + 1 };
+            await this.write(file);
+            return toEntry(file, I) as StoredVerifier;
+        });
+    }
+
+    public async delete (I: string, expectedVersion?: number): Promise<boolean> {
+        return this.run(async (file) => {
+            const current = toEntry(file, I);
+            if (!current) {
+                return false;
+            }
+
+            if (expectedVersion !== undefined) {
+                checkVersion(I, current, expectedVersion);
+            }
+
+            delete file.users[I];
+            await this.write(file);
+            return true;
+        });
+    }
+
+    /**
+     * Runs each operation one at a time, against a fresh copy of the file.
+     */
+    private run<T> (operation: (file: StoreFile) => Promise<T>): Promise<T> {
+        const result = this.queue.then(async () => operation(await this.read()));
+        this.queue = result.catch(() => undefined);
+        return result;
+    }
+
+    private async read (): Promise<StoreFile> {
+        let data: string;
+        try {
+            data = await fs().readFile(this.path, 'utf8');
+        } catch (err) {
+            if ((err as { code?: string }).code === 'ENOENT') {
+                return { v: FILE_VERSION, users: Object.create(null) };
+            }
+            throw err;
+        }
+
+        const file = JSON.parse(data) as StoreFile;
+        if (file.v !== FILE_VERSION || typeof file.users !== 'object') {
+            throw new SRPError(ErrorCode.INVALID_RECORD, `Invalid verifier store file: unsupported version "${file.v}"`);
+        }
+        return { v: file.v, users: Object.assign(Object.create(null), file.users) };
+    }
+
+    private async write (file: StoreFile): Promise<void> {
+        // write to a temporary file first, then rename it over the original, which is atomic
+        const temp = `${this.path}.${toHex(random(64))}.tmp`;
+        const handle = await fs().open(temp, 'w', 0o600);
+        try {
+            try {
+                await handle.writeFile(JSON.stringify(file));
+                await handle.sync();
+            } finally {
+                await handle.close();
+            }
+            await fs().rename(temp, this.path);
+        } catch (err) {
+            // never leave a partial temporary file behind, e.g. if the disk is full
+            await fs().unlink(temp).catch(() => undefined);
+            throw err;
+        }
+    }
+}
+
+function toEntry (file: StoreFile, I: string): StoredVerifier | undefined {
+    const user = file.users[I];
+    return user ? { ...parseCredentials(user.record), version: user.version } : undefined;
+}
+
+function fs (): typeof FS {
+    // loaded lazily, so that browser bundles do not need 'fs'
+    return require('fs').promises;
+}
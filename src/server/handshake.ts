@@ -0,0 +1,184 @@
+/*
+ * BSD 3-Clause License
+ * Copyright (c) 2024, Ollie Killean
+ * License: https://github.com/knokbak/srp-auth
+ */
+
+import { ExecutionBackend } from '../util/backend';
+import { SecureChannel } from '../util/channel';
+import { ErrorCode, SRPError } from '../util/error';
+import { SRPObserver } from '../util/events';
+import { HashProvider } from '../util/hash';
+import { toString } from '../util/math';
+import { AbortMessage, HandshakeMessage, MessageType } from '../util/messages';
+import { ServerAuthenticate, ServerAuthenticateConfig } from './authenticate';
+import { DecoyConfig } from './decoy';
+import { VerifierStore } from './store';
+import { Throttle } from './throttle';
+
+export type ServerHandshakeConfig = {
+    /**
+     * If provided, unknown users are given a decoy challenge (see `ServerAuthenticate.decoy(...)`) and fail at `Proof` like a wrong password, rather than being told that they do not exist.
+     */
+    decoy?: DecoyConfig;
+    /**
+     * Limits how often `M1` can be guessed. Locked out users are refused before `B` is computed.
+     */
+    throttle?: Throttle;
+    /**
+     * Identifies the client to `throttle`, e.g. its IP address.
+     */
+    clientKey?: string;
+    /**
+     * Computes the hashes used by SRP. Defaults to a `WASMHashProvider`.
+     */
+    hashProvider?: HashProvider;
+    /**
+     * Runs the modular exponentiations. Defaults to an `InlineBackend`.
+     */
+    backend?: ExecutionBackend;
+    /**
+     * Receives lifecycle events for each handshake, e.g. from `createLogObserver(...)`.
+     */
+    observer?: SRPObserver;
+    /**
+     * A string identifying the application, which is mixed into `M1` and `M2`. The client must use the same context.
+     */
+    context?: string;
+    /**
+     * Data identifying the underlying connection, which is mixed into `M1` and `M2`. The client must use the same value. If a string is provided, it must be hex encoded.
+     */
+    channelBinding?: string | Uint8Array;
+} & ({
+    /**
+     * Looks up the stored credentials for the user's identity (`I`), which is sent by the client in its `Hello` message. Return `undefined` if the user does not exist.
+     */
+    lookup: (I: string) => Omit<ServerAuthenticateConfig, 'I'> | undefined | Promise<Omit<ServerAuthenticateConfig, 'I'> | undefined>;
+} | {
+    /**
+     * The store that users' credentials were saved to. This can be used instead of `lookup`.
+     */
+    store: VerifierStore;
+    /**
+     * Allows a custom group which has not been validated with `validateGroup(...)`. Defaults to `false`. Only enable this if you trust where the group came from!
+     */
+    allowUnvalidatedGroup?: boolean;
+});
+
+type ServerHandshakeState = 'start' | 'challenge-sent' | 'done' | 'failed';
+
+/**
+ * Drives `ServerAuthenticate` with handshake messages, so that the handshake can be carried over any transport. Messages must be exchanged in order: ← `Hello`, `Challenge` →, ← `Proof`, `Verify` →.
+ *
+ * The messages do not carry an upgrade target or upgraded credentials, so verifiers cannot be upgraded through a handshake. Use `ServerAuthenticate` directly, or `createHTTPHandler(...)`, to upgrade them.
+ */
+export class ServerHandshake {
+    private readonly config: ServerHandshakeConfig;
+    private authenticate?: ServerAuthenticate;
+    private state: ServerHandshakeState = 'start';
+
+    constructor (config: ServerHandshakeConfig) {
+        this.config = config;
+    }
+
+    /**
+     * The user's identity (`I`), once the client's `Hello` message has been received.
+     */
+    public get I (): string | undefined {
+        return this.authenticate ? toString(this.authenticate.I) : undefined;
+    }
+
+    /**
+     * Whether the client has been verified, and the handshake is complete.
+     */
+    public get done (): boolean {
+        return this.state === 'done';
+    }
+
+    /**
+     * Handles a message from the client, and returns the next message to send to the client.
+     * > ⚠️ **Warning**: If this throws, the handshake has failed and the client **must not** be authenticated. Send `abort(error)` to the client.
+     * @throws {SRPError} if the message arrives out of order, or the client aborted the handshake.
+     * @throws {SRPSecurityViolation} if the client's values fail the safety checks, or the client cannot be verified.
+     */
+    public async receive (message: HandshakeMessage): Promise<HandshakeMessage> {
+        if (message.type === MessageType.Abort) {
+            this.state = 'failed';
+            throw new SRPError(ErrorCode.ABORTED, `The client aborted the handshake: ${message.code}`);
+        }
+
+        if (this.state === 'start' && message.type === MessageType.Hello) {
+            const { kdf, normalization, raw } = await this.run(async () => {
+                this.authenticate = await this.lookup(message.I);
+                return this.authenticate.init(message.A);
+            });
+            this.state = 'challenge-sent';
+            return { type: MessageType.Challenge, s: raw.s, B: raw.B, kdf, normalization };
+        }
+
+        if (this.state === 'challenge-sent' && message.type === MessageType.Proof && this.authenticate) {
+            const authenticate = this.authenticate;
+            const { raw } = await this.run(() => authenticate.authenticate(message.M1));
+            this.state = 'done';
+            return { type: MessageType.Verify, M2: raw.M2 };
+        }
+
+        this.state = 'failed';
+        throw new SRPError(ErrorCode.OUT_OF_ORDER, `Unexpected "${message.type}" message during the handshake`);
+    }
+
+    /**
+     * Creates an `Abort` message for the client, describing why the handshake failed.
+     */
+    public abort (error?: unknown): AbortMessage {
+        this.state = 'failed';
+        return { type: MessageType.Abort, code: error instanceof SRPError ? error.code : ErrorCode.ABORTED };
+    }
+
+    /**
+     * Creates an encrypted and authenticated channel to the client. This can only be called once the handshake is complete.
+     */
+    public async createChannel (): Promise<SecureChannel> {
+        if (!this.authenticate || this.state !== 'done') {
+            throw new SRPError(ErrorCode.OUT_OF_ORDER, 'The client must be verified before creating a channel');
+        }
+
+        return this.authenticate.createChannel();
+    }
+
+    private async lookup (I: string): Promise<ServerAuthenticate> {
+        if ('store' in this.config) {
+            return ServerAuthenticate.fromStore(this.config.store, I, {
+                allowUnvalidatedGroup: this.config.allowUnvalidatedGroup,
+                decoy: this.config.decoy,
+                throttle: this.config.throttle,
+                clientKey: this.config.clientKey,
+                hashProvider: this.config.hashProvider,
+                backend: this.config.backend,
+                observer: this.config.observer,
+                context: this.config.context,
+                channelBinding: this.config.channelBinding,
+            });
+        }
+
+        const { throttle, clientKey, hashProvider, backend, observer, context, channelBinding } = this.config;
+
+        const credentials = await this.config.lookup(I);
+        if (!credentials) {
+            if (this.config.decoy) {
+                return ServerAuthenticate.decoy(I, { ...this.config.decoy, throttle, clientKey, hashProvider, backend, observer, context, channelBinding });
+            }
+            throw new SRPError(ErrorCode.UNKNOWN_USER, 'The user does not exist');
+        }
+        return new ServerAuthenticate({ ...credentials, I, throttle, clientKey, hashProvider, backend, observer, context, channelBinding });
+    }
+
+    private async run<T> (step: () => Promise<T>): Promise<T> {
+        try {
+            return await step();
+        } catch (err) {
+            this.state = 'failed';
+            throw err;
+        }
+    }
+}
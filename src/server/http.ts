@@ -0,0 +1,380 @@
+/*
+ * BSD 3-Clause License
+ * Copyright (c) 2024, Ollie Killean
+ * License: https://github.com/knokbak/srp-auth
+ */
+
+import type { IncomingMessage, ServerResponse } from 'http';
+import { ExecutionBackend } from '../util/backend';
+import { ErrorCode, SRPError, SRPPolicyError, SRPRateLimitError } from '../util/error';
+import { SRPObserver } from '../util/events';
+import { Group } from '../util/groups';
+import { Algorithm, HashProvider } from '../util/hash';
+import { KDFParams } from '../util/kdf';
+import { toString, toUint8Array } from '../util/math';
+import { Normalization } from '../util/normalize';
+import { Profile } from '../util/profile';
+import { random } from '../util/random';
+import { UpgradePolicy } from '../util/upgrade';
+import { ServerAuthenticate } from './authenticate';
+import { DecoyConfig } from './decoy';
+import { CredentialPolicy } from './policy';
+import { SealConfig } from './seal';
+import { ServerSetup, ServerSetupResult } from './setup';
+import { VerifierStore } from './store';
+import { Throttle } from './throttle';
+
+/**
+ * The largest request body that will be read, in bytes.
+ */
+const MAX_BODY_LENGTH = 64 * 1024;
+
+/**
+ * The errors which mean that the client's upgraded credentials were rejected, rather than that something went wrong on the server.
+ */
+const UPGRADE_REJECTIONS: ErrorCode[] = [ErrorCode.CONFLICT, ErrorCode.INVALID_INPUT, ErrorCode.POLICY_VIOLATION];
+
+export type HTTPHandlerConfig = {
+    /**
+     * The SRP group used by every user.
+     */
+    group: Group;
+    /**
+     * Allows a custom group which has not been validated with `validateGroup(...)`. Defaults to `false`. Only enable this if you trust where the group came from!
+     */
+    allowUnvalidatedGroup?: boolean;
+    /**
+     * The hashing algorithm used by every user.
+     */
+    algorithm: Algorithm;
+    /**
+     * The protocol profile used by every user. Defaults to `Profile.Legacy`.
+     */
+    profile?: Profile;
+    /**
+     * The path that the routes are mounted under. Defaults to `/srp`, giving `/srp/register`, `/srp/challenge` and `/srp/verify`.
+     */
+    basePath?: string;
+    /**
+     * Called once the user has been authenticated, e.g. to set a session cookie. The return value is sent to the client as `session`.
+     */
+    session: (I: string, req: IncomingMessage, res: ServerResponse) => unknown | Promise<unknown>;
+    /**
+     * The rules that new users' credentials must follow in `/register`, and that upgraded credentials must follow in `/verify`. Violations are returned as `POLICY_VIOLATION`, with every violation listed in `violations`.
+     */
+    policy?: CredentialPolicy;
+    /**
+     * Used to seal the handshake between `/challenge` and `/verify`. Defaults to a random key, which only works if every request reaches the same process.
+     * > ⚠️ **Warning**: If you run multiple servers, you must provide the same `key` and a shared `replayCache` to each of them.
+     */
+    seal?: SealConfig;
+    /**
+     * If provided, `/challenge` returns a decoy challenge for unknown users (see `ServerAuthenticate.decoy(...)`), so `/verify` fails with `BAD_CLIENT_PROOF` like a wrong password. Otherwise, unknown users get `UNKNOWN_USER`, which lets attackers find out which users exist.
+     * `kdf`, `normalization` and `saltLength` should match what your real users have.
+     */
+    decoy?: Pick<DecoyConfig, 'secret' | 'kdf' | 'normalization' | 'saltLength'>;
+    /**
+     * Limits how often passwords can be guessed. Locked out users and clients get a 429 response with a `Retry-After` header.
+     */
+    throttle?: Throttle;
+    /**
+     * Identifies the client to `throttle`. Defaults to the socket's remote address.
+     * > ⚠️ **Warning**: If the server is behind a proxy, the remote address is the proxy's. Return the client's address from a trusted header instead.
+     */
+    clientKey?: (req: IncomingMessage) => string | undefined;
+    /**
+     * Computes the hashes used by SRP. Defaults to a `WASMHashProvider`.
+     */
+    hashProvider?: HashProvider;
+    /**
+     * Runs the modular exponentiations. Defaults to an `InlineBackend`. A `WorkerPool` keeps large groups from stalling other requests.
+     */
+    backend?: ExecutionBackend;
+    /**
+     * Receives lifecycle events for each handshake, e.g. from `createLogObserver(...)`.
+     */
+    observer?: SRPObserver;
+    /**
+     * A string identifying the application, which is mixed into `M1` and `M2`. `HTTPClient` must be given the same context.
+     */
+    context?: string;
+    /**
+     * Returns data identifying the connection that `/verify` arrived on (e.g. a TLS exporter value), which is mixed into `M1` and `M2`. The client must use the same value. If a string is returned, it must be hex encoded.
+     */
+    channelBinding?: (req: IncomingMessage) => string | Uint8Array | undefined;
+} & ({
+    /**
+     * Stores a new user's credentials. Throw to reject the registration, e.g. if the username is taken.
+     */
+    register: (credentials: ServerSetupResult, req: IncomingMessage) => void | Promise<void>;
+    /**
+     * Looks up the credentials stored by `register`. Return `undefined` if the user does not exist.
+     */
+    lookup: (I: string, req: IncomingMessage) => ServerSetupResult | undefined | Promise<ServerSetupResult | undefined>;
+} | {
+    /**
+     * The store to save users' credentials to. This can be used instead of `register` and `lookup`.
+     */
+    store: VerifierStore;
+    /**
+     * If provided, users whose credentials do not match this policy are asked to upgrade them when they log in. `HTTPClient` sends the new credentials with `M1`, and they replace the old ones in `store` once `M1` has been verified.
+     */
+    upgrade?: UpgradePolicy;
+});
+
+/**
+ * An Express/connect-compatible request handler. Requests which do not match a route are passed to `next`, if provided.
+ */
+export type HTTPHandler = (req: IncomingMessage, res: ServerResponse, next?: (err?: unknown) => void) => Promise<void>;
+
+/**
+ * Creates a request handler which serves the `register`, `challenge` and `verify` routes. It can be passed to `http.createServer(...)`, or mounted with `app.use(...)`.
+ *
+ * Each route accepts and returns JSON:
+ * - `POST /register` :: `{ I, s, v, kdf, normalization }` → `{}`
+ * - `POST /challenge` :: `{ I, A }` → `{ s, B, kdf, normalization, token, upgrade? }`
+ * - `POST /verify` :: `{ token, M1, upgrade? }` → `{ M2, session, upgraded? }`
+ *
+ * Errors are returned as `{ error, message }`, where `error` is an `ErrorCode`. `POLICY_VIOLATION` errors also have `violations`.
+ */
+export function createHTTPHandler (config: HTTPHandlerConfig): HTTPHandler {
+    const basePath = (config.basePath ?? '/srp').replace(/\/+$/, '');
+    const sealConfig: SealConfig = config.seal ?? { key: random(256) };
+
+    const routes: Record<string, (body: Record<string, unknown>, req: IncomingMessage, res: ServerResponse) => Promise<unknown>> = {
+        register: async (body, req) => {
+            const setup = new ServerSetup({
+                I: getString(body, 'I'),
+                s: getString(body, 's'),
+                v: getString(body, 'v'),
+                kdf: body.kdf as KDFParams | undefined,
+                normalization: body.normalization as Normalization | undefined,
+                group: config.group,
+                allowUnvalidatedGroup: config.allowUnvalidatedGroup,
+                algorithm: config.algorithm,
+                profile: config.profile,
+                policy: config.policy,
+            });
+            const credentials = await setup.verify();
+            if ('store' in config) {
+                await config.store.put(credentials.username, {
+                    s: toUint8Array(credentials.salt),
+                    v: toUint8Array(credentials.verifier),
+                    group: config.group,
+                    algorithm: config.algorithm,
+                    profile: config.profile ?? Profile.Legacy,
+                    kdf: credentials.kdf,
+                    normalization: credentials.normalization,
+                });
+            } else {
+                await config.register(credentials, req);
+            }
+            return {};
+        },
+        challenge: async (body, req) => {
+            const authenticate = await lookup(getString(body, 'I'), req);
+            const { kdf, normalization, upgrade, encoded } = await authenticate.init(getString(body, 'A'));
+            const token = await authenticate.seal(sealConfig);
+            return { s: encoded.s, B: encoded.B, kdf, normalization, token, upgrade };
+        },
+        verify: async (body, req, res) => {
+            const authenticate = await ServerAuthenticate.unseal(getString(body, 'token'), sealConfig, {
+                throttle: config.throttle,
+                clientKey: getClientKey(req),
+                hashProvider: config.hashProvider,
+                observer: config.observer,
+                context: config.context,
+                channelBinding: config.channelBinding?.(req),
+                upgrade: 'store' in config ? config.upgrade : undefined,
+                policy: config.policy,
+            });
+            const { encoded } = await authenticate.authenticate(getString(body, 'M1'));
+
+            let upgraded: boolean | undefined;
+            if ('store' in config && config.upgrade && typeof body.upgrade === 'string') {
+                // the user has already been authenticated, so a rejected upgrade only means that they are asked again next time
+                upgraded = await authenticate.upgrade(body.upgrade, config.store).then(() => true, (err) => {
+                    if (err instanceof SRPError && UPGRADE_REJECTIONS.includes(err.code)) {
+                        return false;
+                    }
+                    throw err;
+                });
+            }
+
+            const session = await config.session(toString(authenticate.I), req, res);
+            return { M2: encoded.M2, session, upgraded };
+        },
+    };
+
+    const getClientKey = config.clientKey ?? ((req: IncomingMessage) => req.socket?.remoteAddress);
+
+    const lookup = async (I: string, req: IncomingMessage): Promise<ServerAuthenticate> => {
+        const throttle = config.throttle;
+        const clientKey = getClientKey(req);
+        const hashProvider = config.hashProvider;
+        const backend = config.backend;
+        const observer = config.observer;
+        const decoy: DecoyConfig | undefined = config.decoy && {
+            ...config.decoy,
+            group: config.group,
+            allowUnvalidatedGroup: config.allowUnvalidatedGroup,
+            algorithm: config.algorithm,
+            profile: config.profile,
+            throttle,
+            clientKey,
+            hashProvider,
+            backend,
+            observer,
+        };
+
+        if ('store' in config) {
+            return ServerAuthenticate.fromStore(config.store, I, { allowUnvalidatedGroup: config.allowUnvalidatedGroup, decoy, throttle, clientKey, hashProvider, backend, observer, upgrade: config.upgrade });
+        }
+
+        const credentials = await config.lookup(I, req);
+        if (!credentials) {
+            if (decoy) {
+                return ServerAuthenticate.decoy(I, decoy);
+            }
+            throw new SRPError(ErrorCode.UNKNOWN_USER, 'The user does not exist');
+        }
+
+        return new ServerAuthenticate({
+            I,
+            s: credentials.salt,
+            v: credentials.verifier,
+            group: config.group,
+            allowUnvalidatedGroup: config.allowUnvalidatedGroup,
+            algorithm: config.algorithm,
+            profile: config.profile,
+            kdf: credentials.kdf,
+            normalization: credentials.normalization,
+            throttle,
+            clientKey,
+            hashProvider,
+            backend,
+            observer,
+        });
+    };
+
+    return async (req, res, next) => {
+        const path = (req.url ?? '').split('?')[0];
+        const name = path.startsWith(`${basePath}/`) ? path.slice(basePath.length + 1) : '';
+        const route = Object.prototype.hasOwnProperty.call(routes, name) ? routes[name] : undefined;
+
+        if (!route) {
+            if (next) {
+                return next();
+            }
+            return send(res, 404, { error: 'NOT_FOUND', message: 'Not found' });
+        }
+
+        if (req.method !== 'POST') {
+            res.setHeader('Allow', 'POST');
+            return send(res, 405, { error: 'METHOD_NOT_ALLOWED', message: 'Method not allowed' });
+        }
+
+        try {
+            const body = await readBody(req);
+            send(res, 200, await route(body, req, res));
+        } catch (err) {
+            if (err instanceof SRPRateLimitError) {
+                res.setHeader('Retry-After', Math.ceil(err.retryAfter / 1000));
+            }
+
+            if (err instanceof SRPPolicyError) {
+                return send(res, getStatus(err.code), { error: err.code, message: err.message, violations: err.violations });
+            }
+
+            if (err instanceof SRPError) {
+                return send(res, getStatus(err.code), { error: err.code, message: err.message });
+            }
+
+            // unexpected errors are left to the application, so that internal details are not leaked
+            if (next) {
+                return next(err);
+            }
+            send(res, 500, { error: 'INTERNAL_ERROR', message: 'Internal server error' });
+        }
+    };
+}
+
+/**
+ * Maps an `ErrorCode` to an HTTP status code.
+ */
+function getStatus (code: ErrorCode): number {
+    switch (code) {
+        case ErrorCode.BAD_CLIENT_PROOF:
+        case ErrorCode.DECRYPTION_FAILED:
+        case ErrorCode.EXPIRED:
+        case ErrorCode.REPLAYED:
+            return 401;
+        case ErrorCode.UNKNOWN_USER:
+            return 404;
+        case ErrorCode.THROTTLED:
+        case ErrorCode.LOCKED_OUT:
+            return 429;
+        case ErrorCode.CONFLICT:
+        case ErrorCode.OUT_OF_ORDER:
+            return 409;
+        case ErrorCode.INVALID_GROUP:
+        case ErrorCode.INVALID_ALGORITHM:
+            // these are the server's configuration, not the client's fault
+            return 500;
+        case ErrorCode.BUSY:
+            return 503;
+        default:
+            return 400;
+    }
+}
+
+async function readBody (req: IncomingMessage): Promise<Record<string, unknown>> {
+    // the body may have already been parsed, e.g. by express.json()
+    const parsed = (req as IncomingMessage & { body?: unknown }).body;
+    if (parsed && typeof parsed === 'object' && !(parsed instanceof Uint8Array)) {
+        return parsed as Record<string, unknown>;
+    }
+
+    let data = '';
+    if (typeof parsed === 'string' || parsed instanceof Uint8Array) {
+        data = typeof parsed === 'string' ? parsed : new TextDecoder().decode(parsed);
+    } else {
+        let length = 0;
+        const chunks: Uint8Array[] = [];
+        for await (const chunk of req) {
+            length += chunk.length;
+            if (length > MAX_BODY_LENGTH) {
+                throw new SRPError(ErrorCode.INVALID_INPUT, 'The request body is too large');
+            }
+            chunks.push(chunk);
+        }
+        data = Buffer.concat(chunks).toString('utf8');
+    }
+
+    let body: unknown;
+    try {
+        body = JSON.parse(data);
+    } catch {
+        throw new SRPError(ErrorCode.INVALID_INPUT, 'The request body must be valid JSON');
+    }
+
+    if (!body || typeof body !== 'object' || Array.isArray(body)) {
+        throw new SRPError(ErrorCode.INVALID_INPUT, 'The request body must be a JSON object');
+    }
+    return body as Record<string, unknown>;
+}
+
+function getString (body: Record<string, unknown>, key: string): string {
+    const value = body[key];
+    if (typeof value !== 'string' || value.length === 0) {
+        throw new SRPError(ErrorCode.INVALID_INPUT, `"${key}" must be a non-empty string`);
+    }
+    return value;
+}
+
+function send (res: ServerResponse, status: number, body: unknown): void {
+    res.statusCode = status;
+    res.setHeader('Content-Type', 'application/json');
+    res.setHeader('Cache-Control', 'no-store');
+    res.end(JSON.stringify(body));
+}
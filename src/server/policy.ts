@@ -0,0 +1,270 @@
+/*
+ * BSD 3-Clause License
+ * Copyright (c) 2024, Ollie Killean
+ * License: https://github.com/knokbak/srp-auth
+ */
+
+import { ErrorCode, PolicyViolation, SRPError } from '../util/error';
+import { checkGroup, Group } from '../util/groups';
+import { Algorithm } from '../util/hash';
+import { KDF, KDFParams, validateKDF } from '../util/kdf';
+import { powModFixed, toBigInt } from '../util/math';
+import { Normalization, normalizeIdentity, normalizePassword } from '../util/normalize';
+import { computeX, Profile } from '../util/profile';
+
+export type CredentialPolicy = {
+    /**
+     * The groups that users may have. If undefined, any validated group is allowed.
+     */
+    groups?: Group[];
+    /**
+     * The smallest prime modulus (`N`) that users may have, in bits.
+     */
+    minGroupBits?: number;
+    /**
+     * The hashing algorithms that users may have. If undefined, any algorithm is allowed.
+     */
+    algorithms?: Algorithm[];
+    /**
+     * The protocol profiles that users may have. If undefined, any profile is allowed.
+     */
+    profiles?: Profile[];
+    /**
+     * The KDFs that users may have, each with its minimum cost, e.g. `[KDFPresets.argon2id, KDFPresets.scrypt]`. The user's KDF must be one of these, and its cost parameters (iterations and memory size for Argon2id, cost factor and block size for scrypt, and iterations for PBKDF2) must be at least as high. If undefined, any KDF is allowed, including `KDFPresets.none`.
+     */
+    kdfs?: KDFParams[];
+    /**
+     * The KDFs that users may have, each with its maximum cost. The user's KDF must be `KDFPresets.none`, or one of these, and none of its parameters (including parallelism) may be higher. Defaults to Argon2id with 10 iterations, 256 MiB and a parallelism of 8, scrypt with a cost factor of 2^18, a block size of 8 and a parallelism of 8, and PBKDF2 with 2,000,000 iterations.
+     * > ⚠️ **Warning**: The KDF is chosen by the client, and the server runs it for every denied password, so a high maximum lets a single registration use a lot of CPU time and memory.
+     */
+    maxKDFs?: KDFParams[];
+    /**
+     * The normalisations that users may have, e.g. `[Normalization.PRECIS]`. If undefined, any normalisation is allowed, including `Normalization.None`.
+     */
+    normalizations?: Normalization[];
+    /**
+     * The shortest salt (`s`) that users may have, in bits.
+     */
+    minSaltBits?: number;
+    /**
+     * The shortest identity (`I`) that users may have, in characters. Defaults to `1`.
+     */
+    minIdentityLength?: number;
+    /**
+     * The longest identity (`I`) that users may have, in characters.
+     */
+    maxIdentityLength?: number;
+    /**
+     * A pattern that every identity (`I`) must match, e.g. `/^[a-z0-9_.-]+$/`.
+     */
+    identityPattern?: RegExp;
+    /**
+     * Passwords that users may not have, such as the most common passwords. The verifier for each one (and for the identity itself) is computed with the user's salt and parameters, and compared with `v`, so this requires `group` and `algorithm`.
+     * > ⚠️ **Warning**: Each password is stretched with the user's KDF, so keep this list short if you require an expensive KDF.
+     */
+    deniedPasswords?: string[];
+}
+
+/**
+ * @internal
+ */
+export type CredentialPolicyInput = {
+    I: string;
+    s: Uint8Array;
+    v: bigint;
+    group?: Group;
+    allowUnvalidatedGroup?: boolean;
+    algorithm?: Algorithm;
+    profile: Profile;
+    kdf: KDFParams;
+    normalization: Normalization;
+}
+
+/**
+ * The parameters of each KDF which make it more expensive.
+ */
+const COST_PARAMETERS: Record<KDF, string[]> = {
+    [KDF.None]: [],
+    [KDF.Argon2id]: ['iterations', 'memorySize'],
+    [KDF.Scrypt]: ['costFactor', 'blockSize'],
+    [KDF.PBKDF2]: ['iterations'],
+};
+
+/**
+ * The parameters of each KDF which make it more expensive for the server to run. Parallelism is included, as the server may not run the lanes in parallel.
+ */
+const LIMITED_PARAMETERS: Record<KDF, string[]> = {
+    [KDF.None]: [],
+    [KDF.Argon2id]: ['iterations', 'memorySize', 'parallelism'],
+    [KDF.Scrypt]: ['costFactor', 'blockSize', 'parallelism'],
+    [KDF.PBKDF2]: ['iterations'],
+};
+
+/**
+ * The default maximum cost of each KDF.
+ */
+const DEFAULT_MAX_KDFS: KDFParams[] = [
+    { kdf: KDF.Argon2id, iterations: 10, memorySize: 262144, parallelism: 8 },
+    { kdf: KDF.Scrypt, costFactor: 262144, blockSize: 8, parallelism: 8 },
+    { kdf: KDF.PBKDF2, iterations: 2000000 },
+];
+
+/**
+ * Checks new credentials against `policy`, and returns every violation. The basic safety checks (a non-empty, normalised identity, a non-zero salt, a valid group, algorithm, KDF and normalisation, a KDF no more expensive than `maxKDFs`, and `1 < v < N - 1`) always apply, even without a policy.
+ * @internal Use `ServerSetup.verify()` instead.
+ */
+export async function checkCredentials (input: CredentialPolicyInput, policy: CredentialPolicy = {}): Promise<PolicyViolation[]> {
+    const violations: PolicyViolation[] = [];
+    const violate = (field: PolicyViolation['field'], code: ErrorCode, message: string) => violations.push({ field, code, message });
+
+    // I
+    const length = [...input.I].length;
+    if (length < Math.max(1, policy.minIdentityLength ?? 1)) {
+        violate('I', ErrorCode.INVALID_INPUT, length === 0 ? 'I must not be empty' : `I must be at least ${policy.minIdentityLength} characters`);
+    }
+    if (policy.maxIdentityLength !== undefined && length > policy.maxIdentityLength) {
+        violate('I', ErrorCode.INVALID_INPUT, `I must be at most ${policy.maxIdentityLength} characters`);
+    }
+    if (policy.identityPattern && !policy.identityPattern.test(input.I)) {
+        violate('I', ErrorCode.INVALID_INPUT, `I must match ${policy.identityPattern}`);
+    }
+
+    // normalization
+    let normalizationIsValid = false;
+    if (!Object.values(Normalization).includes(input.normalization)) {
+        violate('normalization', ErrorCode.INVALID_INPUT, `Unknown normalization "${input.normalization}"`);
+    } else {
+        normalizationIsValid = true;
+        if (policy.normalizations && !policy.normalizations.includes(input.normalization)) {
+            violate('normalization', ErrorCode.INVALID_INPUT, `The normalization ${input.normalization} is not allowed`);
+        }
+
+        // the client hashes the normalised identity, so the server must store it too
+        try {
+            if (input.I.length > 0 && normalizeIdentity(input.I, input.normalization) !== input.I) {
+                violate('I', ErrorCode.INVALID_INPUT, `I must be normalised with ${input.normalization}`);
+            }
+        } catch (err) {
+            violate('I', err instanceof SRPError ? err.code : ErrorCode.INVALID_INPUT, err instanceof SRPError ? err.message : 'Invalid I');
+        }
+    }
+
+    // s
+    if (input.s.length === 0 || toBigInt(input.s) === 0n) {
+        violate('s', ErrorCode.INVALID_SALT, 's must not be empty or equal zero');
+    } else if (policy.minSaltBits !== undefined && input.s.length * 8 < policy.minSaltBits) {
+        violate('s', ErrorCode.INVALID_SALT, `s must be at least ${policy.minSaltBits} bits`);
+    }
+
+    // group
+    const group = input.group;
+    let groupIsValid = false;
+    if (!group) {
+        if (policy.groups || policy.minGroupBits !== undefined || policy.deniedPasswords) {
+            violate('group', ErrorCode.INVALID_GROUP, 'The group must be provided to check the policy');
+        }
+    } else {
+        try {
+            checkGroup(group, input.allowUnvalidatedGroup);
+            groupIsValid = true;
+        } catch (err) {
+            violate('group', ErrorCode.INVALID_GROUP, err instanceof SRPError ? err.message : 'Invalid group');
+        }
+
+        if (policy.groups && !policy.groups.some((allowed) => allowed.g === group.g && allowed.N === group.N)) {
+            violate('group', ErrorCode.INVALID_GROUP, 'The group is not allowed');
+        }
+        if (policy.minGroupBits !== undefined && group.N.toString(2).length < policy.minGroupBits) {
+            violate('group', ErrorCode.INVALID_GROUP, `N must be at least ${policy.minGroupBits} bits`);
+        }
+    }
+
+    // algorithm and profile
+    const algorithm = input.algorithm;
+    let algorithmIsValid = false;
+    if (!algorithm) {
+        if (policy.algorithms || policy.deniedPasswords) {
+            violate('algorithm', ErrorCode.INVALID_ALGORITHM, 'The algorithm must be provided to check the policy');
+        }
+    } else if (!Object.values(Algorithm).includes(algorithm)) {
+        violate('algorithm', ErrorCode.INVALID_ALGORITHM, `Unknown algorithm "${algorithm}"`);
+    } else if (policy.algorithms && !policy.algorithms.includes(algorithm)) {
+        violate('algorithm', ErrorCode.INVALID_ALGORITHM, `The algorithm ${algorithm} is not allowed`);
+    } else {
+        algorithmIsValid = true;
+    }
+
+    if (!Object.values(Profile).includes(input.profile)) {
+        violate('profile', ErrorCode.INVALID_INPUT, `Unknown profile "${input.profile}"`);
+    } else if (policy.profiles && !policy.profiles.includes(input.profile)) {
+        violate('profile', ErrorCode.INVALID_INPUT, `The profile ${input.profile} is not allowed`);
+    }
+
+    // kdf
+    let kdfIsValid = false;
+    try {
+        validateKDF(input.kdf);
+        kdfIsValid = true;
+    } catch (err) {
+        violate('kdf', ErrorCode.INVALID_KDF, err instanceof SRPError ? err.message : 'Invalid KDF');
+    }
+    if (kdfIsValid && policy.kdfs && !policy.kdfs.some((minimum) => meetsCost(input.kdf, minimum, algorithm))) {
+        violate('kdf', ErrorCode.INVALID_KDF, `The KDF ${input.kdf.kdf} is not allowed, or its parameters are too weak`);
+    }
+    // the denied passwords are stretched with this KDF below, so an expensive one must be rejected before then
+    const maxKDFs = policy.maxKDFs ?? DEFAULT_MAX_KDFS;
+    if (kdfIsValid && input.kdf.kdf !== KDF.None && !maxKDFs.some((maximum) => withinCost(input.kdf, maximum))) {
+        kdfIsValid = false;
+        violate('kdf', ErrorCode.INVALID_KDF, `The parameters of the KDF ${input.kdf.kdf} are too expensive`);
+    }
+
+    // v
+    if (input.v <= 1n || (group && input.v >= group.N)) {
+        violate('v', ErrorCode.INVALID_VERIFIER, group ? 'v must be between 1 and N, exclusive' : 'v must be greater than 1');
+    } else if (group && input.v === group.N - 1n) {
+        // -1 (mod N) has order 2, which an honest setup only produces with negligible probability
+        violate('v', ErrorCode.INVALID_VERIFIER, 'v must not be N - 1');
+    } else if (policy.deniedPasswords && group && groupIsValid && algorithm && algorithmIsValid && kdfIsValid && normalizationIsValid) {
+        const I = new TextEncoder().encode(input.I);
+        for (const password of [input.I, ...policy.deniedPasswords]) {
+            let p: Uint8Array;
+            try {
+                p = new TextEncoder().encode(normalizePassword(password, input.normalization, true));
+            } catch {
+                // the client could not have used a password which the normalisation prohibits
+                continue;
+            }
+
+            const x = await computeX(input.profile, algorithm, I, p, input.s, input.kdf);
+            if (powModFixed(group.g, x, group.N) === input.v) {
+                violate('v', ErrorCode.WEAK_PASSWORD, 'The password is too common, or is the same as the identity');
+                break;
+            }
+        }
+    }
+
+    return violations;
+}
+
+function meetsCost (kdf: KDFParams, minimum: KDFParams, algorithm?: Algorithm): boolean {
+    if (kdf.kdf !== minimum.kdf) {
+        return false;
+    }
+
+    const actual = kdf as Record<string, unknown>;
+    const required = minimum as Record<string, unknown>;
+    if (kdf.kdf === KDF.PBKDF2 && minimum.kdf === KDF.PBKDF2 && minimum.algorithm && (kdf.algorithm ?? algorithm) !== minimum.algorithm) {
+        return false;
+    }
+    return COST_PARAMETERS[kdf.kdf].every((key) => (actual[key] as number) >= (required[key] as number));
+}
+
+function withinCost (kdf: KDFParams, maximum: KDFParams): boolean {
+    if (kdf.kdf !== maximum.kdf) {
+        return false;
+    }
+
+    const actual = kdf as Record<string, unknown>;
+    const allowed = maximum as Record<string, unknown>;
+    return LIMITED_PARAMETERS[kdf.kdf].every((key) => (actual[key] as number) <= (allowed[key] as number));
+}
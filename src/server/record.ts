@@ -0,0 +1,245 @@
+/*
+ * BSD 3-Clause License
+ * Copyright (c) 2024, Ollie Killean
+ * License: https://github.com/knokbak/srp-auth
+ */
+
+import { ErrorCode, SRPError } from '../util/error';
+import { Group, Groups } from '../util/groups';
+import { Algorithm } from '../util/hash';
+import { KDF, KDFParams, KDFPresets, validateKDF } from '../util/kdf';
+import { fromBase64, toBase64, toBigInt, toUint8Array } from '../util/math';
+import { Normalization } from '../util/normalize';
+import { Profile } from '../util/profile';
+
+/**
+ * The current version of the credential record format.
+ */
+export const RECORD_VERSION = 1;
+
+const RECORD_ID = 'srp6a';
+
+export type CredentialRecordInput = {
+    /**
+     * The user's salt (`s`). If a string is provided, it must be hex encoded.
+     */
+    s: string | Uint8Array;
+    /**
+     * The user's verifier (`v`). If a string is provided, it must be hex encoded.
+     */
+    v: string | Uint8Array;
+    /**
+     * The SRP group that was used during setup. This must be one of the built-in `Groups`.
+     */
+    group: Group;
+    /**
+     * The hashing algorithm that was used during setup.
+     */
+    algorithm: Algorithm;
+    /**
+     * The protocol profile that was used during setup. Defaults to `Profile.Legacy`.
+     */
+    profile?: Profile;
+    /**
+     * The key derivation function that was used during setup. Defaults to `KDFPresets.none`.
+     */
+    kdf?: KDFParams;
+    /**
+     * How the username and password were normalised during setup. Defaults to `Normalization.None`.
+     */
+    normalization?: Normalization;
+}
+
+export type CredentialRecord = {
+    /**
+     * The user's salt (`s`) as a Uint8Array.
+     */
+    s: Uint8Array;
+    /**
+     * The user's verifier (`v`) as a Uint8Array.
+     */
+    v: Uint8Array;
+    group: Group;
+    algorithm: Algorithm;
+    profile: Profile;
+    kdf: KDFParams;
+    /**
+     * How the username and password were normalised during setup. If undefined, they were not normalised (`Normalization.None`), as in records created before normalisation was supported.
+     */
+    normalization?: Normalization;
+}
+
+/**
+ * Serialises the user's credentials into a self-describing, versioned string, such as `$srp6a$v=1$g=2048,h=sha3-512$<salt>$<verifier>`. The salt and verifier are base64 encoded, without padding.
+ * @throws {SRPError} if the group is not one of the built-in `Groups`.
+ */
+export function serializeCredentials (input: CredentialRecordInput): string {
+    const s = typeof input.s === 'string' ? toUint8Array(input.s) : input.s;
+    const v = typeof input.v === 'string' ? toUint8Array(input.v) : input.v;
+    const profile = input.profile ?? Profile.Legacy;
+    const kdf = input.kdf ?? KDFPresets.none;
+    const normalization = input.normalization ?? Normalization.None;
+
+    validateKDF(kdf);
+
+    const params = [
+        `g=${getGroupName(input.group)}`,
+        `h=${input.algorithm.toLowerCase()}`,
+    ];
+
+    // the defaults are omitted, so that records stay short
+    if (profile !== Profile.Legacy) {
+        params.push(`pr=${profile}`);
+    }
+    if (normalization !== Normalization.None) {
+        params.push(`nm=${normalization}`);
+    }
+
+    switch (kdf.kdf) {
+        case KDF.None:
+            break;
+        case KDF.Argon2id:
+            params.push(`kdf=${kdf.kdf}`, `t=${kdf.iterations}`, `m=${kdf.memorySize}`, `p=${kdf.parallelism}`);
+            break;
+        case KDF.Scrypt:
+            params.push(`kdf=${kdf.kdf}`, `n=${kdf.costFactor}`, `r=${kdf.blockSize}`, `p=${kdf.parallelism}`);
+            break;
+        case KDF.PBKDF2:
+            params.push(`kdf=${kdf.kdf}`, `i=${kdf.iterations}`);
+            if (kdf.algorithm) {
+                params.push(`kh=${kdf.algorithm.toLowerCase()}`);
+            }
+            break;
+    }
+
+    return `$${RECORD_ID}$v=${RECORD_VERSION}$${params.join(',')}$${toBase64(s)}$${toBase64(v)}`;
+}
+
+/**
+ * Parses and validates a credential record created by `serializeCredentials(...)`. The result can be passed straight into `ServerAuthenticate`, along with `I`.
+ * @throws {SRPError} if the record is malformed, uses an unsupported version, or contains invalid values.
+ */
+export function parseCredentials (record: string): CredentialRecord {
+    const parts = record.split('$');
+    if (parts.length !== 6 || parts[0] !== '') {
+        throw new SRPError(ErrorCode.INVALID_RECORD, 'Invalid credential record: expected $srp6a$v=<version>$<params>$<salt>$<verifier>');
+    }
+
+    const [, id, version, rawParams, rawSalt, rawVerifier] = parts;
+    if (id !== RECORD_ID) {
+        throw new SRPError(ErrorCode.INVALID_RECORD, `Invalid credential record: unknown identifier "${id}"`);
+    }
+
+    if (version !== `v=${RECORD_VERSION}`) {
+        throw new SRPError(ErrorCode.INVALID_RECORD, `Invalid credential record: unsupported version "${version}"`);
+    }
+
+    const params = new Map<string, string>();
+    for (const param of rawParams.split(',')) {
+        const [key, value, ...rest] = param.split('=');
+        if (!key || value === undefined || rest.length > 0 || params.has(key)) {
+            throw new SRPError(ErrorCode.INVALID_RECORD, `Invalid credential record: malformed parameter "${param}"`);
+        }
+        params.set(key, value);
+    }
+
+    const group = getGroup(params.get('g'));
+    const algorithm = getAlgorithm(params.get('h'));
+    const profile = getProfile(params.get('pr'));
+    const normalization = getNormalization(params.get('nm') ?? Normalization.None);
+    const kdf = getKDF(params);
+
+    const s = fromBase64(rawSalt);
+    const v = fromBase64(rawVerifier);
+
+    if (s.length === 0 || toBigInt(s) === 0n) {
+        throw new SRPError(ErrorCode.INVALID_RECORD, 'Invalid credential record: s must not be empty or equal zero');
+    }
+
+    const verifier = toBigInt(v);
+    if (verifier <= 0n || verifier >= group.N) {
+        throw new SRPError(ErrorCode.INVALID_RECORD, 'Invalid credential record: v must be between 0 and N');
+    }
+
+    return { s, v, group, algorithm, profile, kdf, normalization };
+}
+
+function getGroupName (group: Group): string {
+    for (const [name, known] of Object.entries(Groups)) {
+        if (known.g === group.g && known.N === group.N) {
+            return name.slice(1);
+        }
+    }
+    throw new SRPError(ErrorCode.INVALID_GROUP, 'Only the built-in Groups can be stored in a credential record');
+}
+
+function getGroup (name?: string): Group {
+    const group = (Groups as Record<string, Group>)[`b${name}`];
+    if (!name || !group) {
+        throw new SRPError(ErrorCode.INVALID_RECORD, `Invalid credential record: unknown group "${name}"`);
+    }
+    return group;
+}
+
+function getAlgorithm (name?: string): Algorithm {
+    const algorithm = Object.values(Algorithm).find((value) => value.toLowerCase() === name);
+    if (!algorithm) {
+        throw new SRPError(ErrorCode.INVALID_RECORD, `Invalid credential record: unknown algorithm "${name}"`);
+    }
+    return algorithm;
+}
+
+function getProfile (name?: string): Profile {
+    if (name === undefined) {
+        return Profile.Legacy;
+    }
+
+    const profile = Object.values(Profile).find((value) => value === name);
+    if (!profile) {
+        throw new SRPError(ErrorCode.INVALID_RECORD, `Invalid credential record: unknown profile "${name}"`);
+    }
+    return profile;
+}
+
+function getNormalization (name: string): Normalization {
+    const normalization = Object.values(Normalization).find((value) => value === name);
+    if (!normalization) {
+        throw new SRPError(ErrorCode.INVALID_RECORD, `Invalid credential record: unknown normalization "${name}"`);
+    }
+    return normalization;
+}
+
+function getKDF (params: Map<string, string>): KDFParams {
+    const integer = (key: string): number => {
+        const value = params.get(key);
+        if (!value || !/^\d+$/.test(value)) {
+            throw new SRPError(ErrorCode.INVALID_RECORD, `Invalid credential record: "${key}" must be an integer`);
+        }
+        return Number(value);
+    };
+
+    let kdf: KDFParams;
+    switch (params.get('kdf')) {
+        case undefined:
+        case KDF.None:
+            kdf = { kdf: KDF.None };
+            break;
+        case KDF.Argon2id:
+            kdf = { kdf: KDF.Argon2id, iterations: integer('t'), memorySize: integer('m'), parallelism: integer('p') };
+            break;
+        case KDF.Scrypt:
+            kdf = { kdf: KDF.Scrypt, costFactor: integer('n'), blockSize: integer('r'), parallelism: integer('p') };
+            break;
+        case KDF.PBKDF2:
+            kdf = { kdf: KDF.PBKDF2, iterations: integer('i') };
+            if (params.has('kh')) {
+                kdf.algorithm = getAlgorithm(params.get('kh'));
+            }
+            break;
+        default:
+            throw new SRPError(ErrorCode.INVALID_RECORD, `Invalid credential record: unknown KDF "${params.get('kdf')}"`);
+    }
+
+    validateKDF(kdf);
+    return kdf;
+}
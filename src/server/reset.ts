@@ -0,0 +1,109 @@
+/*
+ * BSD 3-Clause License
+ * Copyright (c) 2024, Ollie Killean
+ * License: https://github.com/knokbak/srp-auth
+ */
+
+import { checkSalt, checkVerifier } from '../util/checks';
+import { ErrorCode, SRPError, SRPPolicyError, SRPSecurityViolation } from '../util/error';
+import { checkGroup } from '../util/groups';
+import { Algorithm } from '../util/hash';
+import { KDFPresets, validateKDF } from '../util/kdf';
+import { toBigInt, toUint8Array } from '../util/math';
+import { Normalization } from '../util/normalize';
+import { Profile } from '../util/profile';
+import { random } from '../util/random';
+import { checkCredentials, CredentialPolicy } from './policy';
+import { CredentialRecord, CredentialRecordInput } from './record';
+import { openSealed, seal, SealConfig, useSealed } from './seal';
+import { VerifierStore } from './store';
+
+export type PasswordResetInput = CredentialRecordInput & {
+    /**
+     * The user's identity (`I`), which must match the identity the reset was created for.
+     */
+    I: string;
+}
+
+type ResetState = {
+    I: string;
+}
+
+/**
+ * Creates a single-use token which lets the user set a new password without knowing their current one, e.g. to be sent in a password reset email.
+ * @param I The user's identity (`I`).
+ * @param config The server's sealing key. `ttl` defaults to `86400000` (24 hours).
+ */
+export async function createPasswordReset (I: string, config: SealConfig): Promise<string> {
+    return seal<ResetState>('password-reset', { I }, { ...config, ttl: config.ttl ?? 86400000 });
+}
+
+/**
+ * Replaces the user's verifier with one that no password matches, so that they must reset their password before they can log in again. Returns a token for `acceptPasswordReset(...)`.
+ * @param store The store that the user's credentials were saved to.
+ * @param I The user's identity (`I`).
+ * @param config The server's sealing key. `ttl` defaults to `86400000` (24 hours).
+ * @throws {SRPError} `UNKNOWN_USER` if the user does not exist.
+ */
+export async function forcePasswordReset (store: VerifierStore, I: string, config: SealConfig): Promise<string> {
+    const current = await store.get(I);
+    if (!current) {
+        throw new SRPError(ErrorCode.UNKNOWN_USER, 'The user does not exist');
+    }
+
+    // nobody knows x such that g ^ x % N = v for a random v, so no password will match
+    const v = toBigInt(random(current.group.N.toString(2).length + 128)) % (current.group.N - 1n) + 1n;
+    await store.update(I, { ...current, s: random(current.s.length * 8 || 192), v: toUint8Array(v) }, current.version);
+
+    return createPasswordReset(I, config);
+}
+
+/**
+ * Checks a token created by `createPasswordReset(...)` or `forcePasswordReset(...)`, and the user's new credentials from `ClientSetup`, which must meet `policy` like a new registration. Store the result in place of the user's current credentials, e.g. with `store.update(...)`. Each token can only be used once, but it is not used up if the new credentials are rejected.
+ * @param token The token sent to the user.
+ * @param input The user's identity (`I`), and their new credentials.
+ * @param config The server's sealing key, and the replay cache to use.
+ * @param policy The rules that the new credentials must follow, e.g. the same policy as `ServerSetup`.
+ * @throws {SRPSecurityViolation} if the token has been modified, has expired, has already been used, or was created for another user.
+ * @throws {SRPError} if the new credentials are invalid.
+ * @throws {SRPPolicyError} listing every requirement of the policy that the new credentials do not meet.
+ */
+export async function acceptPasswordReset (token: string, input: PasswordResetInput, config: SealConfig, policy?: CredentialPolicy): Promise<CredentialRecord> {
+    // the token is only used up once the new credentials have been accepted, so that the user can try again
+    const envelope = await openSealed<ResetState>('password-reset', token, config);
+    if (envelope.data.I !== input.I) {
+        throw new SRPSecurityViolation(ErrorCode.INVALID_INPUT, 'The password reset token was created for another user');
+    }
+
+    const s = typeof input.s === 'string' ? toUint8Array(input.s) : input.s;
+    const v = typeof input.v === 'string' ? toUint8Array(input.v) : input.v;
+    const kdf = input.kdf ?? KDFPresets.none;
+    const profile = input.profile ?? Profile.Legacy;
+    const normalization = input.normalization ?? Normalization.None;
+
+    // the new credentials come from the client, so they are checked as strictly as a new registration
+    checkGroup(input.group);
+    checkSalt(s);
+    checkVerifier(toBigInt(v), input.group);
+    validateKDF(kdf);
+
+    if (!Object.values(Algorithm).includes(input.algorithm)) {
+        throw new SRPError(ErrorCode.INVALID_ALGORITHM, `Invalid algorithm "${input.algorithm}"`);
+    }
+
+    if (!Object.values(Profile).includes(profile)) {
+        throw new SRPError(ErrorCode.INVALID_INPUT, `Invalid profile "${profile}"`);
+    }
+
+    if (!Object.values(Normalization).includes(normalization)) {
+        throw new SRPError(ErrorCode.INVALID_INPUT, `Invalid normalization "${normalization}"`);
+    }
+
+    const violations = await checkCredentials({ I: input.I, s, v: toBigInt(v), group: input.group, algorithm: input.algorithm, profile, kdf, normalization }, policy);
+    if (violations.length > 0) {
+        throw new SRPPolicyError(violations);
+    }
+
+    await useSealed(envelope, config);
+    return { s, v, group: input.group, algorithm: input.algorithm, profile, kdf, normalization };
+}
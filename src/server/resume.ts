@@ -0,0 +1,146 @@
+/*
+ * BSD 3-Clause License
+ * Copyright (c) 2024, Ollie Killean
+ * License: https://github.com/knokbak/srp-auth
+ */
+
+import { SecureChannel } from '../util/channel';
+import { ErrorCode, SRPError, SRPSecurityViolation } from '../util/error';
+import { timingSafeEqual, toHex, toUint8Array } from '../util/math';
+import { random, RandomSource } from '../util/random';
+import { computeResumeProof, deriveResumeKeys, RESUME_NONCE_LENGTH } from '../util/resume';
+import { seal, SealConfig, unseal } from './seal';
+
+export type ServerResumeConfig = SealConfig & {
+    /**
+     * Generates the server's nonce. Defaults to `random(...)`, which uses the runtime's CSPRNG. Only replace this in tests.
+     */
+    random?: RandomSource;
+}
+
+export type ServerResumeResult = {
+    /**
+     * The next ticket, which replaces the one the client sent. This should be sent to the client, along with `encoded.nonce` and `encoded.proof`.
+     */
+    ticket: string;
+    raw: {
+        /**
+         * The server's nonce (`Ns`) as a Uint8Array.
+         */
+        nonce: Uint8Array;
+        /**
+         * The server's proof as a Uint8Array.
+         */
+        proof: Uint8Array;
+    }
+    encoded: {
+        /**
+         * The server's nonce (`Ns`) encoded as hex.
+         */
+        nonce: string;
+        /**
+         * The server's proof encoded as hex.
+         */
+        proof: string;
+    }
+}
+
+type TicketState = {
+    I: string;
+    secret: string;
+}
+
+/**
+ * Seals the resumption secret (`RS`) into a ticket for `I`.
+ * @internal Use `createTicket(...)` on `ServerAuthenticate` instead.
+ */
+export async function issueTicket (I: string, secret: Uint8Array, config: SealConfig): Promise<string> {
+    return seal<TicketState>('resumption-ticket', { I, secret: toHex(secret) }, { ...config, ttl: config.ttl ?? 86400000 });
+}
+
+/**
+ * Resumes a session using a ticket issued by `ServerAuthenticate.createTicket(...)`, without the password or verifier. The client proves that it holds the ticket's resumption secret, and both parties derive a fresh session key from it and a nonce from each side.
+ */
+export class ServerResume {
+    private readonly config: ServerResumeConfig;
+    private identity?: string;
+    private K?: Uint8Array;
+
+    constructor (config: ServerResumeConfig) {
+        this.config = config;
+    }
+
+    /**
+     * The identity (`I`) that the ticket was issued to. This is only set once the client has been verified.
+     */
+    public get I (): string | undefined {
+        return this.identity;
+    }
+
+    /**
+     * Verifies the client's proof, then computes the server's proof and a new ticket. Each ticket can only be used once, even if the proof is wrong.
+     * @param I The user's identity (`I`), as sent by the client.
+     * @param ticket The ticket, as sent by the client.
+     * @param nonce The client's nonce (`Nc`). If a string is provided, it must be hex encoded.
+     * @param proof The client's proof. If a string is provided, it must be hex encoded.
+     * @throws {SRPSecurityViolation} if the ticket has been modified, has expired, has already been used or was issued to another user, or if the proof is wrong.
+     */
+    public async authenticate (I: string, ticket: string, nonce: string | Uint8Array, proof: string | Uint8Array): Promise<ServerResumeResult> {
+        if (this.K) {
+            throw new SRPError(ErrorCode.OUT_OF_ORDER, 'authenticate(...) has already been called');
+        }
+
+        const state = await unseal<TicketState>('resumption-ticket', ticket, this.config);
+        if (state.I !== I) {
+            throw new SRPSecurityViolation(ErrorCode.INVALID_INPUT, 'The ticket was issued to another user');
+        }
+
+        if (typeof nonce === 'string') {
+            nonce = toUint8Array(nonce);
+        }
+        if (nonce.length !== RESUME_NONCE_LENGTH) {
+            throw new SRPError(ErrorCode.INVALID_INPUT, `The client's nonce must be ${RESUME_NONCE_LENGTH * 8} bits`);
+        }
+
+        if (typeof proof === 'string') {
+            proof = toUint8Array(proof);
+        }
+
+        const RS = toUint8Array(state.secret);
+        const identity = new TextEncoder().encode(I);
+        const expected = await computeResumeProof(RS, 'client', identity, [ nonce ]);
+        if (!timingSafeEqual(expected, proof)) {
+            throw new SRPSecurityViolation(ErrorCode.BAD_CLIENT_PROOF, 'Client-supplied resumption proof does not match the expected value. The client does not hold the ticket\'s secret!');
+        }
+
+        const Ns = (this.config.random ?? random)(RESUME_NONCE_LENGTH * 8);
+        const { K, next } = await deriveResumeKeys(RS, nonce, Ns);
+        const serverProof = await computeResumeProof(RS, 'server', identity, [ nonce, Ns ]);
+
+        this.identity = I;
+        this.K = K;
+
+        return {
+            ticket: await issueTicket(I, next, this.config),
+            raw: {
+                nonce: Ns,
+                proof: serverProof,
+            },
+            encoded: {
+                nonce: toHex(Ns),
+                proof: toHex(serverProof),
+            },
+        };
+    }
+
+    /**
+     * Creates an encrypted and authenticated channel to the client, using keys derived from the new session key. This can only be called once the client has been verified with `authenticate(...)`.
+     */
+    public async createChannel (): Promise<SecureChannel> {
+        if (!this.K) {
+            throw new SRPError(ErrorCode.OUT_OF_ORDER, 'The client must be verified before creating a channel');
+        }
+
+        return SecureChannel.create(this.K, 'server');
+    }
+}
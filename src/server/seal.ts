@@ -0,0 +1,169 @@
+/*
+ * BSD 3-Clause License
+ * Copyright (c) 2024, Ollie Killean
+ * License: https://github.com/knokbak/srp-auth
+ */
+
+import { decrypt, encrypt, hkdf } from '../util/cipher';
+import { ErrorCode, SRPError, SRPSecurityViolation } from '../util/error';
+import { fromBase64, toBase64, toHex, toUint8Array } from '../util/math';
+import { random } from '../util/random';
+
+/**
+ * The current version of the sealed state format.
+ */
+const SEAL_VERSION = 1;
+
+export type SealConfig = {
+    /**
+     * The server-held key used to encrypt and authenticate the state. This must be at least 256 bits, and must be shared by every server that can unseal the state. If a string is provided, it must be hex encoded.
+     */
+    key: string | Uint8Array;
+    /**
+     * How long the sealed state is valid for, in milliseconds. Defaults to `60000` (1 minute).
+     */
+    ttl?: number;
+    /**
+     * Records which sealed states have already been unsealed. Defaults to a `MemoryReplayCache` shared by the whole process.
+     * > ⚠️ **Warning**: The default cache only protects a single process. If you run multiple servers, you must provide a cache that is shared between them (e.g. backed by Redis).
+     */
+    replayCache?: ReplayCache;
+}
+
+/**
+ * Prevents a sealed state from being unsealed more than once.
+ */
+export interface ReplayCache {
+    /**
+     * Marks `id` as used. Returns `false` if it was already used. The entry only needs to be remembered until `expiresAt` (a timestamp in milliseconds), after which the sealed state is rejected anyway.
+     */
+    use (id: string, expiresAt: number): boolean | Promise<boolean>;
+}
+
+/**
+ * How often `MemoryReplayCache` forgets expired entries, in milliseconds.
+ */
+const REPLAY_CACHE_SWEEP_INTERVAL = 1000;
+
+export class MemoryReplayCache implements ReplayCache {
+    private used = new Map<string, number>();
+    private nextSweep = 0;
+
+    public use (id: string, expiresAt: number): boolean {
+        const now = Date.now();
+        this.sweep(now);
+
+        const expiry = this.used.get(id);
+        if (expiry !== undefined && expiry >= now) {
+            return false;
+        }
+
+        this.used.set(id, expiresAt);
+        return true;
+    }
+
+    /**
+     * Forgets entries which have already expired. This walks every entry, so it runs at most once per `REPLAY_CACHE_SWEEP_INTERVAL`, rather than on every call.
+     */
+    private sweep (now: number): void {
+        if (now < this.nextSweep) {
+            return;
+        }
+        this.nextSweep = now + REPLAY_CACHE_SWEEP_INTERVAL;
+
+        for (const [key, expiry] of this.used) {
+            if (expiry < now) {
+                this.used.delete(key);
+            }
+        }
+    }
+}
+
+const defaultReplayCache = new MemoryReplayCache();
+
+/**
+ * @internal
+ */
+export type Envelope<T> = {
+    id: string;
+    exp: number;
+    data: T;
+}
+
+/**
+ * Encrypts and authenticates `data` under the server's key, along with a unique ID and an expiry. The result is an opaque base64 string.
+ * @internal
+ */
+export async function seal<T> (label: string, data: T, config: SealConfig): Promise<string> {
+    const key = await deriveKey(label, config);
+    const envelope: Envelope<T> = {
+        id: toHex(random(128)),
+        exp: Date.now() + (config.ttl ?? 60000),
+        data,
+    };
+
+    const sealed = await encrypt(key, new TextEncoder().encode(JSON.stringify(envelope)), new Uint8Array([ SEAL_VERSION ]));
+    return toBase64(new Uint8Array([ SEAL_VERSION, ...sealed ]));
+}
+
+/**
+ * Decrypts a value created by `seal(...)`, then checks that it has not expired or already been unsealed.
+ * @throws {SRPSecurityViolation} if the value has been modified, has expired, or has already been unsealed.
+ * @internal
+ */
+export async function unseal<T> (label: string, token: string, config: SealConfig): Promise<T> {
+    const envelope = await openSealed<T>(label, token, config);
+    await useSealed(envelope, config);
+    return envelope.data;
+}
+
+/**
+ * Decrypts a value created by `seal(...)`, then checks that it has not expired. Unlike `unseal(...)`, the value is not marked as used, so `useSealed(...)` must be called before acting on it.
+ * @throws {SRPSecurityViolation} if the value has been modified, or has expired.
+ * @internal
+ */
+export async function openSealed<T> (label: string, token: string, config: SealConfig): Promise<Envelope<T>> {
+    const key = await deriveKey(label, config);
+
+    let sealed: Uint8Array;
+    try {
+        sealed = fromBase64(token);
+    } catch {
+        throw new SRPSecurityViolation(ErrorCode.DECRYPTION_FAILED, 'Sealed state is malformed');
+    }
+
+    if (sealed[0] !== SEAL_VERSION) {
+        throw new SRPSecurityViolation(ErrorCode.DECRYPTION_FAILED, 'Sealed state is malformed or uses an unsupported version');
+    }
+
+    const plaintext = await decrypt(key, sealed.subarray(1), new Uint8Array([ SEAL_VERSION ]));
+    const envelope = JSON.parse(new TextDecoder().decode(plaintext)) as Envelope<T>;
+
+    if (envelope.exp < Date.now()) {
+        throw new SRPSecurityViolation(ErrorCode.EXPIRED, 'Sealed state has expired');
+    }
+
+    return envelope;
+}
+
+/**
+ * Marks a value opened by `openSealed(...)` as used.
+ * @throws {SRPSecurityViolation} if the value has already been used.
+ * @internal
+ */
+export async function useSealed (envelope: Envelope<unknown>, config: SealConfig): Promise<void> {
+    const replayCache = config.replayCache ?? defaultReplayCache;
+    if (!await replayCache.use(envelope.id, envelope.exp)) {
+        throw new SRPSecurityViolation(ErrorCode.REPLAYED, 'Sealed state has already been used. This is possibly a replay attack!');
+    }
+}
+
+async function deriveKey (label: string, config: SealConfig): Promise<Uint8Array> {
+    const key = typeof config.key === 'string' ? toUint8Array(config.key) : config.key;
+    if (key.length < 32) {
+        throw new SRPError(ErrorCode.INVALID_INPUT, 'The sealing key must be at least 256 bits');
+    }
+
+    // each use of the server's key derives its own encryption key
+    return hkdf(key, new Uint8Array(0), `srp-auth ${label}`, 32);
+}
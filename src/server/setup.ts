@@ -4,19 +4,52 @@
  * License: https://github.com/knokbak/srp-auth
  */
 
-import { SRPError, SRPSecurityViolation } from '../util/error';
+import { SRPPolicyError } from '../util/error';
+import { Group } from '../util/groups';
+import { Algorithm } from '../util/hash';
+import { KDFParams, KDFPresets } from '../util/kdf';
 import { toBigInt, toHex, toUint8Array } from '../util/math';
+import { Normalization } from '../util/normalize';
+import { Profile } from '../util/profile';
+import { checkCredentials, CredentialPolicy } from './policy';
 
 export type ServerSetupConfig = {
     I: string;
     s: string | Uint8Array;
     v: string | Uint8Array;
+    kdf?: KDFParams;
+    /**
+     * How the client normalised the username and password during setup. Defaults to `Normalization.None`. If provided, `I` must already be normalised.
+     */
+    normalization?: Normalization;
+    /**
+     * The SRP group that the client used during setup. If provided, `v` must be less than `N`.
+     */
+    group?: Group;
+    /**
+     * Allows a custom group which has not been validated with `validateGroup(...)`. Defaults to `false`. Only enable this if you trust where the group came from!
+     */
+    allowUnvalidatedGroup?: boolean;
+    /**
+     * The hashing algorithm that the client used during setup.
+     */
+    algorithm?: Algorithm;
+    /**
+     * The protocol profile that the client used during setup. Defaults to `Profile.Legacy`.
+     */
+    profile?: Profile;
+    /**
+     * The rules that new credentials must follow, e.g. the allowed groups and KDFs. The basic safety checks always apply.
+     */
+    policy?: CredentialPolicy;
 }
 
 export type ServerSetupResult = {
     username: string;
     salt: string;
     verifier: string;
+    kdf: KDFParams;
+    normalization: Normalization;
 }
 
 export class ServerSetup {
@@ -32,29 +65,53 @@ export class ServerSetup {
      * The user's verifier (`v`).
      */
     private v: bigint;
+    /**
+     * The key derivation function used to compute `x`, and its parameters.
+     */
+    private kdf: KDFParams;
+    /**
+     * How the username and password were normalised.
+     */
+    private normalization: Normalization;
+    private group?: Group;
+    private allowUnvalidatedGroup?: boolean;
+    private algorithm?: Algorithm;
+    private profile: Profile;
+    private policy?: CredentialPolicy;
 
     constructor (config: ServerSetupConfig) {
         this.I = config.I;
         this.s = typeof config.s === 'string' ? toUint8Array(config.s) : config.s;
         this.v = typeof config.v === 'string' ? BigInt(`0x${config.v}`) : toBigInt(config.v);
+        this.kdf = config.kdf ?? KDFPresets.none;
+        this.normalization = config.normalization ?? Normalization.None;
+        this.group = config.group;
+        this.allowUnvalidatedGroup = config.allowUnvalidatedGroup;
+        this.algorithm = config.algorithm;
+        this.profile = config.profile ?? Profile.Legacy;
+        this.policy = config.policy;
     }
 
     /**
-     * Verify the user's credentials meet the requirements.
+     * Verify the user's credentials meet the requirements, and the policy if one was provided.
+     * @throws {SRPPolicyError} listing every requirement that the credentials do not meet.
      */
     public async verify (): Promise<ServerSetupResult> {
-        if (this.I.length === 0) {
-            throw new SRPError('I must not be empty');
-        }
+        const violations = await checkCredentials({
+            I: this.I,
+            s: this.s,
+            v: this.v,
+            group: this.group,
+            allowUnvalidatedGroup: this.allowUnvalidatedGroup,
+            algorithm: this.algorithm,
+            profile: this.profile,
+            kdf: this.kdf,
+            normalization: this.normalization,
+        }, this.policy);
 
-        if (this.s.length === 0 || toBigInt(this.s) === 0n) {
-            throw new SRPSecurityViolation('s must not be empty or equal zero');
+        if (violations.length > 0) {
+            throw new SRPPolicyError(violations);
         }
-
-        if (this.v === 0n) {
-            throw new SRPSecurityViolation('v must not be zero');
-        }
-
         return this.getCredentials();
     }
 
@@ -66,6 +123,8 @@ export class ServerSetup {
             username: this.I,
             salt: toHex(this.s),
             verifier: toHex(this.v),
+            kdf: this.kdf,
+            normalization: this.normalization,
         };
     }
 }
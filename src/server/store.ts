@@ -0,0 +1,106 @@
+/*
+ * BSD 3-Clause License
+ * Copyright (c) 2024, Ollie Killean
+ * License: https://github.com/knokbak/srp-auth
+ */
+
+import { ErrorCode, SRPError } from '../util/error';
+import { CredentialRecord } from './record';
+
+export type StoredVerifier = CredentialRecord & {
+    /**
+     * Increases by one every time the entry is updated. Pass this to `update(...)` or `delete(...)` to make sure that nobody else has changed the entry since it was read.
+     */
+    version: number;
+}
+
+/**
+ * Stores each user's credentials, keyed by their identity (`I`).
+ *
+ * Writes use optimistic concurrency: `put(...)` fails if the user already exists, and `update(...)` fails if the entry has changed since it was read. Use `verifierStoreTests(...)` to check that your own adapter behaves correctly.
+ */
+export interface VerifierStore {
+    /**
+     * Returns the user's credentials, or `undefined` if the user does not exist.
+     */
+    get (I: string): Promise<StoredVerifier | undefined>;
+    /**
+     * Stores a new user's credentials, with a `version` of 1.
+     * @throws {SRPError} `CONFLICT` if the user already exists.
+     */
+    put (I: string, record: CredentialRecord): Promise<StoredVerifier>;
+    /**
+     * Replaces the user's credentials, as long as the stored `version` is still `expectedVersion`.
+     * @throws {SRPError} `UNKNOWN_USER` if the user does not exist, or `CONFLICT` if the entry has changed.
+     */
+    update (I: string, record: CredentialRecord, expectedVersion: number): Promise<StoredVerifier>;
+    /**
+     * Deletes the user's credentials. If `expectedVersion` is provided, the stored `version` must match. Returns `false` if the user does not exist.
+     * @throws {SRPError} `CONFLICT` if the entry has changed.
+     */
+    delete (I: string, expectedVersion?: number): Promise<boolean>;
+}
+
+/**
+ * Keeps credentials in memory. This is useful for tests, and as a reference for other adapters.
+ * > ⚠️ **Warning**: Everything is lost when the process exits.
+ */
+export class MemoryVerifierStore implements VerifierStore {
+    private entries = new Map<string, StoredVerifier>();
+
+    public async get (I: string): Promise<StoredVerifier | undefined> {
+        const entry = this.entries.get(I);
+        return entry ? copy(entry) : undefined;
+    }
+
+    public async put (I: string, record: CredentialRecord): Promise<StoredVerifier> {
+        if (this.entries.has(I)) {
+            throw new SRPError(ErrorCode.CONFLICT, `The user "${I}" already exists`);
+        }
+
+        const entry = copy({ ...record, version: 1 });
+        this.entries.set(I, entry);
+        return copy(entry);
+    }
+
+    public async update (I: string, record: CredentialRecord, expectedVersion: number): Promise<StoredVerifier> {
+        const current = this.entries.get(I);
+        checkVersion(I, current, expectedVersion);
+
+        const entry = copy({ ...record, version: expectedVersion + 1 });
+        this.entries.set(I, entry);
+        return copy(entry);
+    }
+
+    public async delete (I: string, expectedVersion?: number): Promise<boolean> {
+        const current = this.entries.get(I);
+        if (!current) {
+            return false;
+        }
+
+        if (expectedVersion !== undefined) {
+            checkVersion(I, current, expectedVersion);
+        }
+        return this.entries.delete(I);
+    }
+}
+
+/**
+ * Checks that `current` exists and has the expected version.
+ * @throws {SRPError} if the user does not exist, or the entry has changed.
+ * @internal
+ */
+export function checkVersion (I: string, current: StoredVerifier | undefined, expectedVersion: number): asserts current is StoredVerifier {
+    if (!current) {
+        throw new SRPError(ErrorCode.UNKNOWN_USER, `The user "${I}" does not exist`);
+    }
+
+    if (current.version !== expectedVersion) {
+        throw new SRPError(ErrorCode.CONFLICT, `The user "${I}" has been changed: expected version ${expectedVersion}, found ${current.version}`);
+    }
+}
+
+function copy (entry: StoredVerifier): StoredVerifier {
+    // callers must not be able to change what is stored
+    return { ...entry, s: entry.s.slice(), v: entry.v.slice(), group: { ...entry.group }, kdf: { ...entry.kdf } };
+}
@@ -0,0 +1,287 @@
+/*
+ * BSD 3-Clause License
+ * Copyright (c) 2024, Ollie Killean
+ * License: https://github.com/knokbak/srp-auth
+ */
+
+import { ErrorCode, SRPRateLimitError } from '../util/error';
+
+export type ThrottleLimits = {
+    /**
+     * The number of failed attempts allowed before locking out. Defaults to `5` per identity, and `20` per client.
+     */
+    maxAttempts?: number;
+    /**
+     * How long to wait after the first failed attempt, in milliseconds. This doubles after each further failure. Defaults to `1000`.
+     */
+    backoff?: number;
+    /**
+     * The longest time to wait between attempts, in milliseconds. Defaults to `30000`.
+     */
+    maxBackoff?: number;
+    /**
+     * How long to lock out for after `maxAttempts` failed attempts, in milliseconds. Failed attempts are also forgotten after this long. Defaults to `900000` (15 minutes).
+     */
+    lockout?: number;
+}
+
+export type ThrottleConfig = {
+    /**
+     * Limits for each identity (`I`).
+     */
+    identity?: ThrottleLimits;
+    /**
+     * Limits for each client key, such as an IP address.
+     */
+    client?: ThrottleLimits;
+    /**
+     * Where failed attempts are counted. Defaults to a `MemoryThrottleStore` for this `Throttle`.
+     * > ⚠️ **Warning**: The default store only counts attempts made to a single process. If you run multiple servers, you must provide a store that is shared between them (e.g. backed by Redis).
+     */
+    store?: ThrottleStore;
+    /**
+     * Called when an identity or client is locked out, e.g. to alert the user. `key` is `I` or the client key.
+     */
+    onLockout?: (type: 'identity' | 'client', key: string, until: number) => void | Promise<void>;
+}
+
+export type ThrottleCounter = {
+    /**
+     * The number of failed attempts.
+     */
+    failures: number;
+    /**
+     * When the last failed attempt was made, as a timestamp in milliseconds.
+     */
+    lastFailure: number;
+}
+
+/**
+ * Counts failed attempts for each key.
+ */
+export interface ThrottleStore {
+    /**
+     * Returns the counter for `key`, or `undefined` if there have been no failed attempts since it expired.
+     */
+    get (key: string): ThrottleCounter | undefined | Promise<ThrottleCounter | undefined>;
+    /**
+     * Atomically records a failed attempt at `now`, and returns the new counter. The counter only needs to be remembered until `expiresAt` (a timestamp in milliseconds).
+     */
+    increment (key: string, now: number, expiresAt: number): ThrottleCounter | Promise<ThrottleCounter>;
+    /**
+     * Atomically forgets one attempt recorded for `key`. `Throttle` uses this to count attempts which have not finished yet.
+     */
+    decrement (key: string): void | Promise<void>;
+    /**
+     * Forgets all failed attempts for `key`.
+     */
+    reset (key: string): void | Promise<void>;
+}
+
+/**
+ * How often `MemoryThrottleStore` forgets expired counters, in milliseconds.
+ */
+const THROTTLE_STORE_SWEEP_INTERVAL = 1000;
+
+export class MemoryThrottleStore implements ThrottleStore {
+    private counters = new Map<string, ThrottleCounter & { expiresAt: number }>();
+    private nextSweep = 0;
+
+    public get (key: string): ThrottleCounter | undefined {
+        const counter = this.counters.get(key);
+        if (!counter || counter.expiresAt < Date.now()) {
+            return undefined;
+        }
+        return { failures: counter.failures, lastFailure: counter.lastFailure };
+    }
+
+    public increment (key: string, now: number, expiresAt: number): ThrottleCounter {
+        this.sweep(now);
+
+        const counter = this.counters.get(key);
+        const failures = (counter && counter.expiresAt >= now ? counter.failures : 0) + 1;
+        this.counters.set(key, { failures, lastFailure: now, expiresAt });
+        return { failures, lastFailure: now };
+    }
+
+    public decrement (key: string): void {
+        const counter = this.counters.get(key);
+        if (!counter) {
+            return;
+        }
+
+        counter.failures--;
+        if (counter.failures <= 0) {
+            this.counters.delete(key);
+        }
+    }
+
+    public reset (key: string): void {
+        this.counters.delete(key);
+    }
+
+    /**
+     * Forgets counters which have already expired. This walks every counter, so it runs at most once per `THROTTLE_STORE_SWEEP_INTERVAL`, rather than on every failed attempt.
+     */
+    private sweep (now: number): void {
+        if (now < this.nextSweep) {
+            return;
+        }
+        this.nextSweep = now + THROTTLE_STORE_SWEEP_INTERVAL;
+
+        for (const [key, counter] of this.counters) {
+            if (counter.expiresAt < now) {
+                this.counters.delete(key);
+            }
+        }
+    }
+}
+
+const DEFAULT_LIMITS: Record<'identity' | 'client', Required<ThrottleLimits>> = {
+    identity: { maxAttempts: 5, backoff: 1000, maxBackoff: 30000, lockout: 900000 },
+    client: { maxAttempts: 20, backoff: 1000, maxBackoff: 30000, lockout: 900000 },
+};
+
+/**
+ * Limits how often `M1` can be guessed. Failed attempts are counted per identity (`I`), and per client key (e.g. an IP address). After each failure, the next attempt must wait (exponential backoff), and after too many failures, the identity or client is locked out for a while.
+ *
+ * Pass the same `Throttle` to every `ServerAuthenticate`, `ServerHandshake` or `createHTTPHandler(...)`.
+ */
+export class Throttle {
+    private readonly limits: Record<'identity' | 'client', Required<ThrottleLimits>>;
+    private readonly store: ThrottleStore;
+    private readonly onLockout?: ThrottleConfig['onLockout'];
+
+    constructor (config: ThrottleConfig = {}) {
+        this.limits = {
+            identity: { ...DEFAULT_LIMITS.identity, ...config.identity },
+            client: { ...DEFAULT_LIMITS.client, ...config.client },
+        };
+        this.store = config.store ?? new MemoryThrottleStore();
+        this.onLockout = config.onLockout;
+    }
+
+    /**
+     * Checks whether an attempt may be made.
+     * @throws {SRPRateLimitError} `LOCKED_OUT` if the identity or client is locked out, or `THROTTLED` if they must wait before trying again.
+     */
+    public async check (I: string, client?: string): Promise<void> {
+        await this.checkKey('identity', I);
+        if (client !== undefined) {
+            await this.checkKey('client', client);
+        }
+    }
+
+    /**
+     * Records an attempt before it is made. Attempts which have not finished yet count towards `maxAttempts`, so attempts made in parallel cannot all pass `check(...)` before any of them fail. Once the attempt has been made, call `failure(...)`, `success(...)` or `release(...)` with the same arguments.
+     * > ⚠️ **Warning**: Attempts made in parallel skip the backoff between them, but never `maxAttempts`.
+     * @throws {SRPRateLimitError} `LOCKED_OUT` if the identity or client is locked out, or `THROTTLED` if too many of its attempts are already being made.
+     */
+    public async reserve (I: string, client?: string): Promise<void> {
+        await this.reserveKey('identity', I);
+        if (client !== undefined) {
+            try {
+                await this.reserveKey('client', client);
+            } catch (err) {
+                await this.store.decrement(getPendingKey('identity', I));
+                throw err;
+            }
+        }
+    }
+
+    /**
+     * Records that an attempt reserved with `reserve(...)` failed.
+     */
+    public async failure (I: string, client?: string): Promise<void> {
+        // the failure is recorded before the reservation is released, so that it is never missed by reserve(...)
+        await this.failKey('identity', I);
+        if (client !== undefined) {
+            await this.failKey('client', client);
+        }
+        await this.release(I, client);
+    }
+
+    /**
+     * Records that an attempt reserved with `reserve(...)` succeeded, which forgets the identity's failed attempts. The client's failed attempts are kept, so that one valid account cannot be used to reset them.
+     */
+    public async success (I: string, client?: string): Promise<void> {
+        await this.store.reset(getKey('identity', I));
+        await this.release(I, client);
+    }
+
+    /**
+     * Forgets an attempt reserved with `reserve(...)` which could not be made, without counting it as a failure.
+     */
+    public async release (I: string, client?: string): Promise<void> {
+        await this.store.decrement(getPendingKey('identity', I));
+        if (client !== undefined) {
+            await this.store.decrement(getPendingKey('client', client));
+        }
+    }
+
+    private async checkKey (type: 'identity' | 'client', key: string): Promise<void> {
+        const counter = await this.store.get(getKey(type, key));
+        if (!counter) {
+            return;
+        }
+
+        const limits = this.limits[type];
+        const now = Date.now();
+
+        if (counter.failures >= limits.maxAttempts) {
+            const until = counter.lastFailure + limits.lockout;
+            if (now < until) {
+                throw new SRPRateLimitError(ErrorCode.LOCKED_OUT, `This ${type} has been locked out after too many failed attempts`, until - now);
+            }
+            return;
+        }
+
+        const until = counter.lastFailure + getBackoff(limits, counter.failures);
+        if (now < until) {
+            throw new SRPRateLimitError(ErrorCode.THROTTLED, `Too many failed attempts have been made by this ${type}. Try again later`, until - now);
+        }
+    }
+
+    private async reserveKey (type: 'identity' | 'client', key: string): Promise<void> {
+        const limits = this.limits[type];
+        const now = Date.now();
+        const pending = await this.store.increment(getPendingKey(type, key), now, now + limits.lockout);
+        const counter = await this.store.get(getKey(type, key));
+        const failures = counter?.failures ?? 0;
+        if (failures + pending.failures <= limits.maxAttempts) {
+            return;
+        }
+
+        await this.store.decrement(getPendingKey(type, key));
+        if (counter && failures >= limits.maxAttempts) {
+            const until = counter.lastFailure + limits.lockout;
+            throw new SRPRateLimitError(ErrorCode.LOCKED_OUT, `This ${type} has been locked out after too many failed attempts`, Math.max(until - now, 0));
+        }
+        throw new SRPRateLimitError(ErrorCode.THROTTLED, `Too many attempts are being made by this ${type}. Try again later`, limits.backoff);
+    }
+
+    private async failKey (type: 'identity' | 'client', key: string): Promise<void> {
+        const limits = this.limits[type];
+        const now = Date.now();
+        const counter = await this.store.increment(getKey(type, key), now, now + limits.lockout);
+
+        if (counter.failures === limits.maxAttempts && this.onLockout) {
+            await this.onLockout(type, key, now + limits.lockout);
+        }
+    }
+}
+
+function getKey (type: 'identity' | 'client', key: string): string {
+    return `${type}:${key}`;
+}
+
+/**
+ * The key that attempts which have not finished yet are counted under.
+ */
+function getPendingKey (type: 'identity' | 'client', key: string): string {
+    return `pending:${type}:${key}`;
+}
+
+function getBackoff (limits: Required<ThrottleLimits>, failures: number): number {
+    return Math.min(limits.backoff * 2 ** (failures - 1), limits.maxBackoff);
+}
@@ -0,0 +1,313 @@
+/*
+ * BSD 3-Clause License
+ * Copyright (c) 2024, Ollie Killean
+ * License: https://github.com/knokbak/srp-auth
+ */
+
+import { ErrorCode, SRPError } from './error';
+import { powMod, powModFixed } from './math';
+
+/**
+ * Runs the modular exponentiations used by SRP, which are by far the most expensive part of each handshake.
+ */
+export interface ExecutionBackend {
+    /**
+     * Computes `base ^ exp % N`, as `powMod(...)` does.
+     */
+    powMod (base: bigint, exp: bigint, N: bigint): Promise<bigint>;
+    /**
+     * Computes `g ^ exp % N` using a cached table for `g`, as `powModFixed(...)` does.
+     */
+    powModFixed (g: bigint, exp: bigint, N: bigint): Promise<bigint>;
+}
+
+/**
+ * Runs every exponentiation on the calling thread. This is the default backend.
+ */
+export class InlineBackend implements ExecutionBackend {
+    public async powMod (base: bigint, exp: bigint, N: bigint): Promise<bigint> {
+        return powMod(base, exp, N);
+    }
+
+    public async powModFixed (g: bigint, exp: bigint, N: bigint): Promise<bigint> {
+        return powModFixed(g, exp, N);
+    }
+}
+
+/**
+ * @internal
+ */
+export const inlineBackend = new InlineBackend();
+
+/**
+ * @internal
+ */
+export type WorkerRequest = {
+    id: number;
+    op: 'powMod' | 'powModFixed';
+    base: bigint;
+    exp: bigint;
+    N: bigint;
+}
+
+/**
+ * @internal
+ */
+export type WorkerResponse = {
+    id: number;
+    result: bigint;
+} | {
+    id: number;
+    error: { code: ErrorCode; message: string };
+}
+
+export type WorkerPoolConfig = {
+    /**
+     * The number of workers to start. Defaults to one fewer than the number of CPU cores, and at least `1`.
+     */
+    size?: number;
+    /**
+     * The number of tasks which can wait for a free worker. Further tasks are rejected with `BUSY`. Defaults to `1024`.
+     */
+    maxQueue?: number;
+    /**
+     * The URL of the worker script, `srp-auth/dist/util/worker.js`, which is required for Web Workers. In Node.js, the script is found automatically.
+     */
+    url?: string | URL;
+}
+
+type Task = {
+    request: Omit<WorkerRequest, 'id'>;
+    resolve: (result: bigint) => void;
+    reject: (err: unknown) => void;
+}
+
+type PoolWorker = {
+    postMessage (request: WorkerRequest): void;
+    terminate (): void;
+    /**
+     * Whether a task is running. In Node.js, idle workers do not keep the process alive.
+     */
+    setBusy (busy: boolean): void;
+    task?: Task & { id: number };
+    /**
+     * Whether the worker has completed a task, which shows that it started successfully.
+     */
+    ready: boolean;
+}
+
+/**
+ * Runs every exponentiation in a pool of `worker_threads` in Node.js, or Web Workers in browsers, so that large groups do not block the event loop or freeze the UI. Workers are started when they are first needed.
+ *
+ * If workers are not available, e.g. because there is no `Worker` in this runtime, `config.url` is missing in a browser, or a worker fails to start, every exponentiation runs on the calling thread instead, exactly like `InlineBackend`.
+ */
+export class WorkerPool implements ExecutionBackend {
+    private readonly size: number;
+    private readonly maxQueue: number;
+    private readonly url?: string | URL;
+    private workers: PoolWorker[] = [];
+    private queue: Task[] = [];
+    private nextId = 0;
+    private unavailable = false;
+    private closed = false;
+
+    constructor (config: WorkerPoolConfig = {}) {
+        this.size = Math.max(1, Math.floor(config.size ?? getCores() - 1));
+        this.maxQueue = config.maxQueue ?? 1024;
+        this.url = config.url;
+    }
+
+    public powMod (base: bigint, exp: bigint, N: bigint): Promise<bigint> {
+        return this.run({ op: 'powMod', base, exp, N });
+    }
+
+    public powModFixed (g: bigint, exp: bigint, N: bigint): Promise<bigint> {
+        return this.run({ op: 'powModFixed', base: g, exp, N });
+    }
+
+    /**
+     * Stops every worker. Tasks which are running or queued are rejected with `ABORTED`, and so is every task after the pool has been closed.
+     */
+    public close (): void {
+        this.closed = true;
+        const err = new SRPError(ErrorCode.ABORTED, 'The worker pool was closed');
+        for (const worker of this.workers) {
+            worker.terminate();
+            worker.task?.reject(err);
+        }
+        for (const task of this.queue) {
+            task.reject(err);
+        }
+        this.workers = [];
+        this.queue = [];
+    }
+
+    private run (request: Task['request']): Promise<bigint> {
+        if (this.closed) {
+            return Promise.reject(new SRPError(ErrorCode.ABORTED, 'The worker pool was closed'));
+        }
+
+        if (this.unavailable) {
+            return runInline(request);
+        }
+
+        return new Promise((resolve, reject) => {
+            const task = { request, resolve, reject };
+            const worker = this.getIdleWorker();
+            if (worker) {
+                this.dispatch(worker, task);
+                return;
+            }
+
+            if (this.unavailable) {
+                runInline(request).then(resolve, reject);
+                return;
+            }
+
+            if (this.queue.length >= this.maxQueue) {
+                reject(new SRPError(ErrorCode.BUSY, 'The worker pool queue is full. Try again later'));
+                return;
+            }
+            this.queue.push(task);
+        });
+    }
+
+    private getIdleWorker (): PoolWorker | undefined {
+        const idle = this.workers.find((worker) => !worker.task);
+        if (idle || this.workers.length >= this.size) {
+            return idle;
+        }
+
+        const worker = this.spawn();
+        if (worker) {
+            this.workers.push(worker);
+        }
+        return worker;
+    }
+
+    private dispatch (worker: PoolWorker, task: Task): void {
+        const id = this.nextId++;
+        worker.task = { ...task, id };
+        worker.setBusy(true);
+        worker.postMessage({ ...task.request, id });
+    }
+
+    private onMessage (worker: PoolWorker, response: WorkerResponse): void {
+        const task = worker.task;
+        if (!task || task.id !== response.id) {
+            return;
+        }
+
+        worker.task = undefined;
+        worker.ready = true;
+        if ('error' in response) {
+            task.reject(new SRPError(response.error.code, response.error.message));
+        } else {
+            task.resolve(response.result);
+        }
+        this.next(worker);
+    }
+
+    private onFailure (worker: PoolWorker): void {
+        if (!this.workers.includes(worker)) {
+            return;
+        }
+
+        worker.terminate();
+        this.workers = this.workers.filter((other) => other !== worker);
+
+        // a worker which never completed a task probably cannot start at all, e.g. because its script is missing
+        if (!worker.ready) {
+            this.unavailable = true;
+        }
+
+        // the task did not fail, so it is run on this thread instead
+        if (worker.task) {
+            runInline(worker.task.request).then(worker.task.resolve, worker.task.reject);
+        }
+
+        if (this.unavailable) {
+            const queue = this.queue;
+            this.queue = [];
+            for (const task of queue) {
+                runInline(task.request).then(task.resolve, task.reject);
+            }
+        }
+    }
+
+    private next (worker: PoolWorker): void {
+        const task = this.queue.shift();
+        if (task) {
+            this.dispatch(worker, task);
+        } else {
+            worker.setBusy(false);
+        }
+    }
+
+    private spawn (): PoolWorker | undefined {
+        let worker: PoolWorker | undefined;
+        try {
+            worker = isNode() ? this.spawnNode() : this.spawnWeb();
+        } catch {
+            worker = undefined;
+        }
+
+        if (!worker) {
+            this.unavailable = true;
+        }
+        return worker;
+    }
+
+    private spawnNode (): PoolWorker {
+        const { Worker } = require('worker_threads');
+        const thread = new Worker(this.url ?? require('path').join(__dirname, 'worker.js'));
+        const worker: PoolWorker = {
+            postMessage: (request) => thread.postMessage(request),
+            terminate: () => thread.terminate(),
+            setBusy: (busy) => busy ? thread.ref() : thread.unref(),
+            ready: false,
+        };
+
+        thread.on('message', (response: WorkerResponse) => this.onMessage(worker, response));
+        thread.on('error', () => this.onFailure(worker));
+        thread.on('exit', () => this.onFailure(worker));
+        thread.unref();
+        return worker;
+    }
+
+    private spawnWeb (): PoolWorker | undefined {
+        if (typeof Worker === 'undefined' || !this.url) {
+            return undefined;
+        }
+
+        const thread = new Worker(this.url);
+        const worker: PoolWorker = {
+            postMessage: (request) => thread.postMessage(request),
+            terminate: () => thread.terminate(),
+            setBusy: () => {},
+            ready: false,
+        };
+
+        thread.onmessage = (event: MessageEvent<WorkerResponse>) => this.onMessage(worker, event.data);
+        thread.onerror = () => this.onFailure(worker);
+        return worker;
+    }
+}
+
+function runInline (request: Task['request']): Promise<bigint> {
+    return request.op === 'powModFixed'
+        ? inlineBackend.powModFixed(request.base, request.exp, request.N)
+        : inlineBackend.powMod(request.base, request.exp, request.N);
+}
+
+function getCores (): number {
+    if (isNode()) {
+        const os = require('os');
+        return os.availableParallelism?.() ?? os.cpus().length;
+    }
+    return typeof navigator !== 'undefined' ? navigator.hardwareConcurrency ?? 1 : 1;
+}
+
+function isNode (): boolean {
+    return typeof process !== 'undefined' && !!process.versions?.node;
+}
@@ -0,0 +1,152 @@
+/*
+ * BSD 3-Clause License
+ * Copyright (c) 2024, Ollie Killean
+ * License: https://github.com/knokbak/srp-auth
+ */
+
+import { decrypt, encrypt, hkdf } from './cipher';
+import { ErrorCode, SRPError, SRPSecurityViolation } from './error';
+import { toUint8Array } from './math';
+
+/**
+ * The length of the sequence number prefixed to each message, in bytes.
+ */
+const SEQUENCE_LENGTH = 8;
+
+export type ChannelRole = 'client' | 'server';
+
+type Direction = {
+    key: Uint8Array;
+    iv: Uint8Array;
+    sequence: number;
+}
+
+/**
+ * An authenticated, encrypted channel between the client and server, derived from the shared session key (`K`).
+ *
+ * Each direction has its own AES-256-GCM key and nonce, derived from `K` using HKDF. Every message carries a sequence number, which must arrive in order. Messages which have been modified, replayed, reordered or dropped are rejected.
+ */
+export class SecureChannel {
+    private readonly outgoing: Direction;
+    private readonly incoming: Direction;
+    private failed = false;
+
+    private constructor (outgoing: Direction, incoming: Direction) {
+        this.outgoing = outgoing;
+        this.incoming = incoming;
+    }
+
+    /**
+     * Derives the client→server and server→client keys from `K`.
+     * @internal Use `createChannel()` on `ClientAuthenticate` or `ServerAuthenticate` instead.
+     */
+    public static async create (K: Uint8Array, role: ChannelRole): Promise<SecureChannel> {
+        const [clientKey, clientIV, serverKey, serverIV] = await Promise.all([
+            hkdf(K, new Uint8Array(0), 'srp-auth channel client->server key', 32),
+            hkdf(K, new Uint8Array(0), 'srp-auth channel client->server iv', 12),
+            hkdf(K, new Uint8Array(0), 'srp-auth channel server->client key', 32),
+            hkdf(K, new Uint8Array(0), 'srp-auth channel server->client iv', 12),
+        ]);
+
+        const client = { key: clientKey, iv: clientIV, sequence: 0 };
+        const server = { key: serverKey, iv: serverIV, sequence: 0 };
+        return role === 'client' ? new SecureChannel(client, server) : new SecureChannel(server, client);
+    }
+
+    /**
+     * Encrypts and authenticates a message for the other party. Messages must be opened in the same order that they are sealed.
+     * @param data The message. Strings are UTF-8 encoded.
+     * @param additionalData Data which is authenticated but not encrypted, such as a message type. The other party must provide the same value.
+     */
+    public async seal (data: string | Uint8Array, additionalData?: Uint8Array): Promise<Uint8Array> {
+        if (typeof data === 'string') {
+            data = new TextEncoder().encode(data);
+        }
+
+        const sequence = this.next(this.outgoing);
+        const sealed = await encrypt(this.outgoing.key, data, additionalData, nonce(this.outgoing.iv, sequence));
+
+        // the nonce can be derived from the sequence number, so it is replaced by the sequence number
+        const message = new Uint8Array(SEQUENCE_LENGTH + sealed.length - this.outgoing.iv.length);
+        message.set(encodeSequence(sequence), 0);
+        message.set(sealed.subarray(this.outgoing.iv.length), SEQUENCE_LENGTH);
+        return message;
+    }
+
+    /**
+     * Decrypts and verifies a message from the other party.
+     * @param message The message, created by the other party's `seal(...)`. If a string is provided, it must be hex encoded.
+     * @param additionalData The same additional data that was given to `seal(...)`.
+     * @throws {SRPSecurityViolation} if the message has been modified, replayed, reordered or dropped. Once a message fails to decrypt, every later call throws too, and a new session must be started.
+     */
+    public async open (message: string | Uint8Array, additionalData?: Uint8Array): Promise<Uint8Array> {
+        if (typeof message === 'string') {
+            message = toUint8Array(message);
+        }
+
+        if (message.length < SEQUENCE_LENGTH) {
+            throw new SRPSecurityViolation(ErrorCode.DECRYPTION_FAILED, 'Message is too short');
+        }
+
+        if (this.failed) {
+            throw new SRPSecurityViolation(ErrorCode.DECRYPTION_FAILED, 'A previous message failed to decrypt, so the channel can no longer be used');
+        }
+
+        const sequence = decodeSequence(message.subarray(0, SEQUENCE_LENGTH));
+        if (sequence !== this.incoming.sequence) {
+            throw new SRPSecurityViolation(ErrorCode.INVALID_SEQUENCE, `Unexpected sequence number: expected ${this.incoming.sequence}, received ${sequence}. The message has been replayed, reordered or dropped!`);
+        }
+        // reserve the sequence number before decrypting, so that a concurrent open(...) of the same message is rejected
+        this.next(this.incoming);
+
+        const iv = nonce(this.incoming.iv, sequence);
+        const sealed = new Uint8Array(iv.length + message.length - SEQUENCE_LENGTH);
+        sealed.set(iv, 0);
+        sealed.set(message.subarray(SEQUENCE_LENGTH), iv.length);
+
+        try {
+            return await decrypt(this.incoming.key, sealed, additionalData);
+        } catch (err) {
+            // the sequence number has been used up, so no later message could be opened anyway
+            this.failed = true;
+            throw err;
+        }
+    }
+
+    private next (direction: Direction): number {
+        if (direction.sequence >= Number.MAX_SAFE_INTEGER) {
+            throw new SRPError(ErrorCode.INVALID_SEQUENCE, 'Sequence number exhausted: a new session must be started');
+        }
+        return direction.sequence++;
+    }
+}
+
+function encodeSequence (sequence: number): Uint8Array {
+    const arr = new Uint8Array(SEQUENCE_LENGTH);
+    let value = BigInt(sequence);
+    for (let i = SEQUENCE_LENGTH - 1; i >= 0; i--) {
+        arr[i] = Number(value & 0xffn);
+        value >>= 8n;
+    }
+    return arr;
+}
+
+function decodeSequence (arr: Uint8Array): number {
+    let value = 0n;
+    for (let i = 0; i < arr.length; i++) {
+        value = (value << 8n) | BigInt(arr[i]);
+    }
+    return value > BigInt(Number.MAX_SAFE_INTEGER) ? -1 : Number(value);
+}
+
+/**
+ * XORs the sequence number into the end of the base nonce, as in TLS 1.3.
+ */
+function nonce (iv: Uint8Array, sequence: number): Uint8Array {
+    const result = iv.slice();
+    const encoded = encodeSequence(sequence);
+    for (let i = 0; i < encoded.length; i++) {
+        result[result.length - encoded.length + i] ^= encoded[i];
+    }
+    return result;
+}
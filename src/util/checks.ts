@@ -0,0 +1,61 @@
+/*
+ * BSD 3-Clause License
+ * Copyright (c) 2024, Ollie Killean
+ * License: https://github.com/knokbak/srp-auth
+ */
+
+import { ErrorCode, SRPSecurityViolation } from './error';
+import { Group } from './groups';
+import { toBigInt } from './math';
+
+/**
+ * Checks a public ephemeral key (`A` or `B`) received from the other party, as required by [RFC 5054](https://datatracker.ietf.org/doc/html/rfc5054#section-2.5.4). The key must not be empty, must be less than `N`, and must not be zero (mod `N`).
+ * @throws {SRPSecurityViolation} if the key is invalid.
+ */
+export function checkPublicKey (name: 'A' | 'B', value: Uint8Array, group: Group): bigint {
+    const sender = name === 'A' ? 'client' : 'server';
+    if (value.length === 0) {
+        throw new SRPSecurityViolation(ErrorCode.INVALID_PUBLIC_KEY, `Invalid ${sender}-supplied public key: ${name} is empty`);
+    }
+
+    const key = toBigInt(value);
+    if (key >= group.N) {
+        throw new SRPSecurityViolation(ErrorCode.INVALID_PUBLIC_KEY, `Invalid ${sender}-supplied public key: ${name} must be less than N. This is probably a misconfiguration, but possibly a MitM attack!`);
+    }
+
+    if (key % group.N === 0n) {
+        throw new SRPSecurityViolation(ErrorCode.INVALID_PUBLIC_KEY, `Invalid ${sender}-supplied public key: ${name} % N = 0. This is probably a misconfiguration, but possibly a MitM attack!`);
+    }
+
+    return key;
+}
+
+/**
+ * Checks that `u` is not zero, as required by RFC 5054.
+ * @throws {SRPSecurityViolation} if `u` is zero.
+ */
+export function checkScrambler (u: bigint): void {
+    if (u === 0n) {
+        throw new SRPSecurityViolation(ErrorCode.INVALID_PUBLIC_KEY, 'Invalid keys: u = 0. This is probably a misconfiguration, but possibly a MitM attack!');
+    }
+}
+
+/**
+ * Checks that the salt (`s`) is not empty or zero.
+ * @throws {SRPSecurityViolation} if the salt is invalid.
+ */
+export function checkSalt (s: Uint8Array): void {
+    if (s.length === 0 || toBigInt(s) === 0n) {
+        throw new SRPSecurityViolation(ErrorCode.INVALID_SALT, 's must not be empty or equal zero');
+    }
+}
+
+/**
+ * Checks that the verifier (`v`) is between 0 and `N`, exclusive.
+ * @throws {SRPSecurityViolation} if the verifier is invalid.
+ */
+export function checkVerifier (v: bigint, group: Group): void {
+    if (v <= 0n || v >= group.N) {
+        throw new SRPSecurityViolation(ErrorCode.INVALID_VERIFIER, 'v must be between 0 and N');
+    }
+}
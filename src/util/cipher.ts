@@ -0,0 +1,90 @@
+/*
+ * BSD 3-Clause License
+ * Copyright (c) 2024, Ollie Killean
+ * License: https://github.com/knokbak/srp-auth
+ */
+
+import { ErrorCode, SRPSecurityViolation } from './error';
+import { random } from './random';
+
+/**
+ * The length of the AES-GCM nonce, in bytes.
+ */
+const IV_LENGTH = 12;
+
+function getSubtle (): SubtleCrypto {
+    if (typeof globalThis.crypto !== 'undefined' && globalThis.crypto.subtle) {
+        return globalThis.crypto.subtle;
+    }
+    return require('crypto').webcrypto.subtle;
+}
+
+/**
+ * Copies `arr` into its own ArrayBuffer, as WebCrypto does not accept views over a SharedArrayBuffer.
+ */
+function toBuffer (arr: Uint8Array): ArrayBuffer {
+    return arr.slice().buffer as ArrayBuffer;
+}
+
+/**
+ * Derives `length` bytes from `ikm` using HKDF-SHA-256, as described by [RFC 5869](https://datatracker.ietf.org/doc/html/rfc5869). `info` is used as a label, so that different uses of the same key derive different keys.
+ */
+export async function hkdf (ikm: Uint8Array, salt: Uint8Array, info: string, length: number): Promise<Uint8Array> {
+    const subtle = getSubtle();
+    const key = await subtle.importKey('raw', toBuffer(ikm), 'HKDF', false, [ 'deriveBits' ]);
+    const bits = await subtle.deriveBits({
+        name: 'HKDF',
+        hash: 'SHA-256',
+        salt: toBuffer(salt),
+        info: toBuffer(new TextEncoder().encode(info)),
+    }, key, length * 8);
+    return new Uint8Array(bits);
+}
+
+/**
+ * Encrypts and authenticates `plaintext` using AES-256-GCM. If `iv` is undefined, a random one is generated. The result is `iv | ciphertext | tag`.
+ */
+export async function encrypt (key: Uint8Array, plaintext: Uint8Array, additionalData?: Uint8Array, iv?: Uint8Array): Promise<Uint8Array> {
+    const subtle = getSubtle();
+    iv = iv ?? random(IV_LENGTH * 8);
+
+    const cryptoKey = await subtle.importKey('raw', toBuffer(key), 'AES-GCM', false, [ 'encrypt' ]);
+    const ciphertext = new Uint8Array(await subtle.encrypt({
+        name: 'AES-GCM',
+        iv: toBuffer(iv),
+        additionalData: toBuffer(additionalData ?? new Uint8Array(0)),
+    }, cryptoKey, toBuffer(plaintext)));
+
+    const sealed = new Uint8Array(IV_LENGTH + ciphertext.length);
+    sealed.set(iv, 0);
+    sealed.set(ciphertext, IV_LENGTH);
+    return sealed;
+}
+
+/**
+ * Decrypts a value created by `encrypt(...)`.
+ * @throws {SRPSecurityViolation} if the value has been modified, or was encrypted with a different key or additional data.
+ */
+export async function decrypt (key: Uint8Array, sealed: Uint8Array, additionalData?: Uint8Array): Promise<Uint8Array> {
+    const subtle = getSubtle();
+    const cryptoKey = await subtle.importKey('raw', toBuffer(key), 'AES-GCM', false, [ 'decrypt' ]);
+
+    try {
+        return new Uint8Array(await subtle.decrypt({
+            name: 'AES-GCM',
+            iv: toBuffer(sealed.subarray(0, IV_LENGTH)),
+            additionalData: toBuffer(additionalData ?? new Uint8Array(0)),
+        }, cryptoKey, toBuffer(sealed.subarray(IV_LENGTH))));
+    } catch {
+        throw new SRPSecurityViolation(ErrorCode.DECRYPTION_FAILED, 'Failed to decrypt: the data has been modified, or the wrong key was used');
+    }
+}
+
+/**
+ * Computes HMAC-SHA-256 over `data` using `key`, as described by [RFC 2104](https://datatracker.ietf.org/doc/html/rfc2104).
+ */
+export async function hmac (key: Uint8Array, data: Uint8Array): Promise<Uint8Array> {
+    const subtle = getSubtle();
+    const cryptoKey = await subtle.importKey('raw', toBuffer(key), { name: 'HMAC', hash: 'SHA-256' }, false, [ 'sign' ]);
+    return new Uint8Array(await subtle.sign('HMAC', cryptoKey, toBuffer(data)));
+}
@@ -0,0 +1,110 @@
+/*
+ * BSD 3-Clause License
+ * Copyright (c) 2024, Ollie Killean
+ * License: https://github.com/knokbak/srp-auth
+ */
+
+import { checkCredentials, CredentialPolicy } from '../server/policy';
+import type { CredentialRecord } from '../server/record';
+import { checkSalt, checkVerifier } from './checks';
+import { decrypt, encrypt, hkdf } from './cipher';
+import { ErrorCode, SRPError, SRPPolicyError } from './error';
+import { checkGroup } from './groups';
+import { Algorithm } from './hash';
+import { KDFParams, validateKDF } from './kdf';
+import { toBigInt, toHex, toString, toUint8Array } from './math';
+import { Normalization } from './normalize';
+import { Profile } from './profile';
+
+type EncryptedCredentials = {
+    s: string;
+    v: string;
+    g: string;
+    N: string;
+    algorithm: Algorithm;
+    profile: Profile;
+    kdf: KDFParams;
+    normalization?: Normalization;
+}
+
+/**
+ * The fields of the payload which are hex encoded.
+ */
+const HEX_FIELDS = ['s', 'v', 'g', 'N'] as const;
+
+/**
+ * Encrypts and authenticates new credentials under the session key (`K`), so that only the server which completed the handshake can read them. `I` is authenticated too, so the credentials cannot be replayed for another user.
+ * @internal
+ */
+export async function encryptCredentials (K: Uint8Array, I: Uint8Array, record: CredentialRecord): Promise<Uint8Array> {
+    const key = await hkdf(K, new Uint8Array(0), 'srp-auth password change', 32);
+    const payload: EncryptedCredentials = {
+        s: toHex(record.s),
+        v: toHex(record.v),
+        g: toHex(record.group.g),
+        N: toHex(record.group.N),
+        algorithm: record.algorithm,
+        profile: record.profile,
+        kdf: record.kdf,
+        normalization: record.normalization ?? Normalization.None,
+    };
+    return encrypt(key, new TextEncoder().encode(JSON.stringify(payload)), I);
+}
+
+/**
+ * Decrypts credentials created by `encryptCredentials(...)`, then checks that they are safe to store, and that they meet `policy`.
+ * @throws {SRPSecurityViolation} if the credentials have been modified, were encrypted for another session or user, or contain an invalid salt or verifier.
+ * @throws {SRPError} if the credentials are malformed, the group has not been validated, or the algorithm, profile, KDF or normalisation is unknown.
+ * @throws {SRPPolicyError} listing every requirement of the policy that the credentials do not meet.
+ * @internal
+ */
+export async function decryptCredentials (K: Uint8Array, I: Uint8Array, data: Uint8Array, policy?: CredentialPolicy): Promise<CredentialRecord> {
+    const key = await hkdf(K, new Uint8Array(0), 'srp-auth password change', 32);
+    const plaintext = await decrypt(key, data, I);
+
+    let payload: EncryptedCredentials;
+    try {
+        payload = JSON.parse(new TextDecoder().decode(plaintext));
+    } catch {
+        throw new SRPError(ErrorCode.INVALID_INPUT, 'The new credentials are malformed');
+    }
+
+    if (!payload || typeof payload !== 'object') {
+        throw new SRPError(ErrorCode.INVALID_INPUT, 'The new credentials are malformed');
+    }
+    for (const field of HEX_FIELDS) {
+        if (typeof payload[field] !== 'string') {
+            throw new SRPError(ErrorCode.INVALID_INPUT, `The new credentials are malformed: ${field} must be a hex string`);
+        }
+    }
+
+    const s = toUint8Array(payload.s);
+    const v = toUint8Array(payload.v);
+    const group = { g: toBigInt(toUint8Array(payload.g)), N: toBigInt(toUint8Array(payload.N)) };
+
+    // the new credentials come from the client, so they are checked as strictly as a new registration
+    checkGroup(group);
+    checkSalt(s);
+    checkVerifier(toBigInt(v), group);
+    validateKDF(payload.kdf);
+
+    if (!Object.values(Algorithm).includes(payload.algorithm)) {
+        throw new SRPError(ErrorCode.INVALID_ALGORITHM, `Invalid algorithm "${payload.algorithm}"`);
+    }
+
+    if (!Object.values(Profile).includes(payload.profile)) {
+        throw new SRPError(ErrorCode.INVALID_INPUT, `Invalid profile "${payload.profile}"`);
+    }
+
+    const normalization = payload.normalization ?? Normalization.None;
+    if (!Object.values(Normalization).includes(normalization)) {
+        throw new SRPError(ErrorCode.INVALID_INPUT, `Invalid normalization "${normalization}"`);
+    }
+
+    const violations = await checkCredentials({ I: toString(I), s, v: toBigInt(v), group, algorithm: payload.algorithm, profile: payload.profile, kdf: payload.kdf, normalization }, policy);
+    if (violations.length > 0) {
+        throw new SRPPolicyError(violations);
+    }
+
+    return { s, v, group, algorithm: payload.algorithm, profile: payload.profile, kdf: payload.kdf, normalization };
+}
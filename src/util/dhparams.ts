@@ -0,0 +1,84 @@
+/*
+ * BSD 3-Clause License
+ * Copyright (c) 2024, Ollie Killean
+ * License: https://github.com/knokbak/srp-auth
+ */
+
+import { ErrorCode, SRPError } from './error';
+import { Group } from './groups';
+import { fromBase64, toBigInt } from './math';
+
+const DER_SEQUENCE = 0x30;
+const DER_INTEGER = 0x02;
+
+/**
+ * Imports a group from PKCS #3 DH parameters, such as those created by `openssl dhparam`. The group is **not** validated, so it must be passed to `validateGroup(...)` before use.
+ * @param input A PEM string (`-----BEGIN DH PARAMETERS-----`), or the DER encoding as a Uint8Array.
+ * @throws {SRPError} if the parameters are malformed.
+ */
+export function parseDHParams (input: string | Uint8Array): Group {
+    const der = typeof input === 'string' ? fromPEM(input) : input;
+
+    // DHParameter ::= SEQUENCE { prime INTEGER, base INTEGER, privateValueLength INTEGER OPTIONAL }
+    const sequence = readElement(der, 0, DER_SEQUENCE);
+    if (sequence.end !== der.length) {
+        throw new SRPError(ErrorCode.INVALID_GROUP, 'Invalid DH parameters: unexpected data after the sequence');
+    }
+
+    const prime = readElement(der, sequence.start, DER_INTEGER);
+    const base = readElement(der, prime.end, DER_INTEGER);
+
+    const N = toBigInt(der.subarray(prime.start, prime.end));
+    const g = toBigInt(der.subarray(base.start, base.end));
+    if (der[prime.start] & 0x80 || der[base.start] & 0x80) {
+        throw new SRPError(ErrorCode.INVALID_GROUP, 'Invalid DH parameters: N and g must be positive');
+    }
+
+    return { g, N };
+}
+
+function fromPEM (pem: string): Uint8Array {
+    const match = pem.match(/-----BEGIN DH PARAMETERS-----([\s\S]+?)-----END DH PARAMETERS-----/);
+    if (!match) {
+        throw new SRPError(ErrorCode.INVALID_GROUP, 'Invalid DH parameters: expected a "DH PARAMETERS" PEM block');
+    }
+    return fromBase64(match[1].replace(/\s+/g, ''));
+}
+
+/**
+ * Reads the tag and length of the DER element at `offset`, returning where its contents start and end.
+ */
+function readElement (der: Uint8Array, offset: number, tag: number): { start: number; end: number } {
+    if (der[offset] !== tag) {
+        throw new SRPError(ErrorCode.INVALID_GROUP, `Invalid DH parameters: expected tag 0x${tag.toString(16)} at offset ${offset}`);
+    }
+
+    let length = der[offset + 1];
+    let start = offset + 2;
+    if (length === undefined) {
+        throw new SRPError(ErrorCode.INVALID_GROUP, 'Invalid DH parameters: truncated');
+    }
+
+    // long form: the low bits are the number of length bytes which follow
+    if (length & 0x80) {
+        const count = length & 0x7f;
+        if (count === 0 || count > 4) {
+            throw new SRPError(ErrorCode.INVALID_GROUP, 'Invalid DH parameters: unsupported length');
+        }
+        if (start + count > der.length) {
+            throw new SRPError(ErrorCode.INVALID_GROUP, 'Invalid DH parameters: truncated');
+        }
+
+        length = 0;
+        for (let i = 0; i < count; i++) {
+            length = length * 256 + der[start + i];
+        }
+        start += count;
+    }
+
+    const end = start + length;
+    if (length === 0 || end > der.length) {
+        throw new SRPError(ErrorCode.INVALID_GROUP, 'Invalid DH parameters: truncated');
+    }
+    return { start, end };
+}
@@ -4,16 +4,163 @@
  * License: https://github.com/knokbak/srp-auth
  */
 
+/**
+ * A stable, machine-readable reason for an error. Unlike error messages, these will not change between versions.
+ */
+export enum ErrorCode {
+    /**
+     * A value passed to the library is malformed, e.g. an invalid hex string or an empty identity.
+     */
+    INVALID_INPUT = 'INVALID_INPUT',
+    /**
+     * The SRP group is malformed, unsafe, or has not been validated.
+     */
+    INVALID_GROUP = 'INVALID_GROUP',
+    /**
+     * The hashing algorithm is unknown.
+     */
+    INVALID_ALGORITHM = 'INVALID_ALGORITHM',
+    /**
+     * The key derivation function is unknown, or its parameters are invalid.
+     */
+    INVALID_KDF = 'INVALID_KDF',
+    /**
+     * A stored credential record is malformed or contains invalid values.
+     */
+    INVALID_RECORD = 'INVALID_RECORD',
+    /**
+     * A public ephemeral key (`A` or `B`), or `u`, failed the RFC 5054 safety checks.
+     */
+    INVALID_PUBLIC_KEY = 'INVALID_PUBLIC_KEY',
+    /**
+     * The salt (`s`) is empty or zero.
+     */
+    INVALID_SALT = 'INVALID_SALT',
+    /**
+     * The verifier (`v`) is not between 0 and `N`.
+     */
+    INVALID_VERIFIER = 'INVALID_VERIFIER',
+    /**
+     * The user does not exist.
+     */
+    UNKNOWN_USER = 'UNKNOWN_USER',
+    /**
+     * The user already exists, or was changed by someone else since it was read.
+     */
+    CONFLICT = 'CONFLICT',
+    /**
+     * Too many failed attempts have been made recently. Try again after `retryAfter` milliseconds.
+     */
+    THROTTLED = 'THROTTLED',
+    /**
+     * The user or client has been temporarily locked out after too many failed attempts.
+     */
+    LOCKED_OUT = 'LOCKED_OUT',
+    /**
+     * The client's proof (`M1`) is wrong. Usually, this means the password is wrong.
+     */
+    BAD_CLIENT_PROOF = 'BAD_CLIENT_PROOF',
+    /**
+     * The server's proof (`M2`) is wrong. The server cannot be trusted.
+     */
+    BAD_SERVER_PROOF = 'BAD_SERVER_PROOF',
+    /**
+     * A handshake message is malformed, or uses an unsupported version.
+     */
+    INVALID_MESSAGE = 'INVALID_MESSAGE',
+    /**
+     * A method was called out of order, or more than once.
+     */
+    OUT_OF_ORDER = 'OUT_OF_ORDER',
+    /**
+     * The other party aborted the handshake.
+     */
+    ABORTED = 'ABORTED',
+    /**
+     * Encrypted data has been modified, or was encrypted with a different key.
+     */
+    DECRYPTION_FAILED = 'DECRYPTION_FAILED',
+    /**
+     * A channel message arrived out of sequence, or the channel has sent too many messages.
+     */
+    INVALID_SEQUENCE = 'INVALID_SEQUENCE',
+    /**
+     * Sealed state has expired.
+     */
+    EXPIRED = 'EXPIRED',
+    /**
+     * Sealed state has already been used.
+     */
+    REPLAYED = 'REPLAYED',
+    /**
+     * The worker pool's queue is full. Try again later.
+     */
+    BUSY = 'BUSY',
+    /**
+     * New credentials do not meet the server's policy. The error is an `SRPPolicyError`, which lists every violation.
+     */
+    POLICY_VIOLATION = 'POLICY_VIOLATION',
+    /**
+     * The verifier (`v`) was computed from a password that the server's policy denies, such as a common password or the identity itself.
+     */
+    WEAK_PASSWORD = 'WEAK_PASSWORD',
+    /**
+     * The identity (`I`) or password contains a character which the chosen `Normalization` does not allow, such as a control character.
+     */
+    PROHIBITED_CHARACTER = 'PROHIBITED_CHARACTER',
+}
+
 export class SRPError extends Error {
-    constructor (message: string) {
+    public readonly code: ErrorCode;
+
+    constructor (code: ErrorCode, message: string) {
         super(message);
         this.name = 'SRPError';
+        this.code = code;
     }
 }
 
 export class SRPSecurityViolation extends SRPError {
-    constructor (message: string) {
-        super(message);
+    constructor (code: ErrorCode, message: string) {
+        super(code, message);
         this.name = 'SRPSecurityViolation';
     }
 }
+
+export class SRPRateLimitError extends SRPError {
+    /**
+     * How long to wait before trying again, in milliseconds.
+     */
+    public readonly retryAfter: number;
+
+    constructor (code: ErrorCode, message: string, retryAfter: number) {
+        super(code, message);
+        this.name = 'SRPRateLimitError';
+        this.retryAfter = retryAfter;
+    }
+}
+
+export type PolicyViolation = {
+    /**
+     * The value which broke the policy.
+     */
+    field: 'I' | 's' | 'v' | 'group' | 'algorithm' | 'profile' | 'kdf' | 'normalization';
+    /**
+     * Why the value broke the policy, e.g. `INVALID_SALT`.
+     */
+    code: ErrorCode;
+    message: string;
+}
+
+export class SRPPolicyError extends SRPError {
+    /**
+     * Every way in which the credentials broke the policy, not just the first.
+     */
+    public readonly violations: PolicyViolation[];
+
+    constructor (violations: PolicyViolation[]) {
+        super(ErrorCode.POLICY_VIOLATION, `The credentials do not meet the policy: ${violations.map((violation) => violation.message).join('; ')}`);
+        this.name = 'SRPPolicyError';
+        this.violations = violations;
+    }
+}
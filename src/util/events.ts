@@ -0,0 +1,217 @@
+/*
+ * BSD 3-Clause License
+ * Copyright (c) 2024, Ollie Killean
+ * License: https://github.com/knokbak/srp-auth
+ */
+
+import { ErrorCode, SRPError, SRPSecurityViolation } from './error';
+import { Group } from './groups';
+import { Algorithm } from './hash';
+import { toHex } from './math';
+import { Profile } from './profile';
+import { random } from './random';
+
+export type SRPEventType =
+    /**
+     * `init(...)` was called.
+     */
+    'started' |
+    /**
+     * A value was computed. `step` and `duration` are set.
+     */
+    'step' |
+    /**
+     * `ClientSetup` computed the verifier.
+     */
+    'completed' |
+    /**
+     * The other party's proof (`M1` or `M2`) was correct.
+     */
+    'proof-verified' |
+    /**
+     * The other party's proof (`M1` or `M2`) was wrong. `code` is set.
+     */
+    'proof-rejected' |
+    /**
+     * A value failed the safety checks, e.g. an invalid `A` or `B`. `code` is set.
+     */
+    'security-violation' |
+    /**
+     * The handshake failed for any other reason, e.g. a method was called out of order, or the user is throttled. `code` is set if the error was an `SRPError`.
+     */
+    'aborted';
+
+/**
+ * The value computed by a `step` event.
+ */
+export type SRPStep = 'x' | 'v' | 'k' | 'A' | 'B' | 'u' | 'S' | 'K' | 'M1' | 'M2';
+
+export type SRPEvent = {
+    type: SRPEventType;
+    /**
+     * The class which emitted the event.
+     */
+    source: 'ClientSetup' | 'ClientAuthenticate' | 'ServerAuthenticate';
+    /**
+     * A random ID shared by every event from the same instance, so that events from one handshake can be grouped together.
+     */
+    id: string;
+    /**
+     * The user's identity (`I`).
+     */
+    I: string;
+    /**
+     * The size of the group's prime modulus (`N`), in bits.
+     */
+    bits: number;
+    algorithm: Algorithm;
+    profile: Profile;
+    /**
+     * When the event happened, as a timestamp in milliseconds.
+     */
+    time: number;
+    /**
+     * The value that was computed, for `step` events. Only the name of the value is included, never the value itself.
+     */
+    step?: SRPStep;
+    /**
+     * How long the step took, in milliseconds, for `step` events.
+     */
+    duration?: number;
+    /**
+     * The reason for `proof-rejected`, `security-violation` and `aborted` events.
+     */
+    code?: ErrorCode;
+    /**
+     * The error message for `proof-rejected`, `security-violation` and `aborted` events.
+     */
+    message?: string;
+}
+
+/**
+ * Receives lifecycle events from `ClientSetup`, `ClientAuthenticate` and `ServerAuthenticate`. Events never include secrets (`p`, `a`, `b`, `x`, `S` or `K`). Errors thrown by the observer are ignored, so that they cannot affect authentication.
+ */
+export type SRPObserver = (event: SRPEvent) => void;
+
+/**
+ * Emits events for one instance of `ClientSetup`, `ClientAuthenticate` or `ServerAuthenticate`. Does nothing if there is no observer.
+ * @internal
+ */
+export class EventEmitter {
+    private readonly observer?: SRPObserver;
+    private readonly base: Pick<SRPEvent, 'source' | 'id' | 'I' | 'bits' | 'algorithm' | 'profile'>;
+
+    constructor (observer: SRPObserver | undefined, source: SRPEvent['source'], I: string, group: Group, algorithm: Algorithm, profile: Profile) {
+        this.observer = observer;
+        this.base = {
+            source,
+            id: observer ? toHex(random(64)) : '',
+            I,
+            bits: group.N.toString(2).length,
+            algorithm,
+            profile,
+        };
+    }
+
+    public emit (type: SRPEventType, fields?: Pick<SRPEvent, 'step' | 'duration' | 'code' | 'message'>): void {
+        if (!this.observer) {
+            return;
+        }
+
+        try {
+            this.observer({ type, ...this.base, time: Date.now(), ...fields });
+        } catch {
+            // the observer must not affect authentication
+        }
+    }
+
+    /**
+     * Runs `compute`, then emits a `step` event with how long it took.
+     */
+    public async step<T> (step: SRPStep, compute: () => T | Promise<T>): Promise<T> {
+        const start = now();
+        const result = await compute();
+        this.emit('step', { step, duration: now() - start });
+        return result;
+    }
+
+    /**
+     * Runs a public method, and emits an event if it throws.
+     */
+    public async run<T> (method: () => Promise<T>): Promise<T> {
+        try {
+            return await method();
+        } catch (err) {
+            this.fail(err);
+            throw err;
+        }
+    }
+
+    private fail (err: unknown): void {
+        const message = err instanceof Error ? err.message : String(err);
+        if (err instanceof SRPSecurityViolation) {
+            const rejected = err.code === ErrorCode.BAD_CLIENT_PROOF || err.code === ErrorCode.BAD_SERVER_PROOF;
+            this.emit(rejected ? 'proof-rejected' : 'security-violation', { code: err.code, message });
+        } else {
+            this.emit('aborted', { code: err instanceof SRPError ? err.code : undefined, message });
+        }
+    }
+}
+
+function now (): number {
+    return typeof performance !== 'undefined' ? performance.now() : Date.now();
+}
+
+/**
+ * The subset of an OpenTelemetry `Tracer` used by `createSpanObserver(...)`.
+ */
+export interface SpanTracer {
+    startSpan (name: string, options?: { attributes?: Record<string, string | number>; startTime?: number }): {
+        setStatus (status: { code: number; message?: string }): void;
+        end (endTime?: number): void;
+    };
+}
+
+/**
+ * OpenTelemetry's `SpanStatusCode.ERROR`.
+ */
+const SPAN_STATUS_ERROR = 2;
+
+/**
+ * Returns an observer which records each event as a span, using an OpenTelemetry-style tracer (e.g. `trace.getTracer('srp-auth')`). `step` events become spans named `srp.<step>` which cover the time the step took. Other events become instant spans named `srp.<type>`. Failures have an error status. Every span has the event's fields as `srp.*` attributes.
+ */
+export function createSpanObserver (tracer: SpanTracer): SRPObserver {
+    return (event) => {
+        const attributes: Record<string, string | number> = {};
+        for (const [key, value] of Object.entries(event)) {
+            if (value !== undefined && key !== 'time') {
+                attributes[`srp.${key}`] = value;
+            }
+        }
+
+        const startTime = event.time - (event.duration ?? 0);
+        const span = tracer.startSpan(event.type === 'step' ? `srp.${event.step}` : `srp.${event.type}`, { attributes, startTime });
+        if (event.type === 'proof-rejected' || event.type === 'security-violation' || event.type === 'aborted') {
+            span.setStatus({ code: SPAN_STATUS_ERROR, message: event.code ?? event.message });
+        }
+        span.end(event.time);
+    };
+}
+
+/**
+ * Returns an observer which writes each event as a single [logfmt](https://brandur.org/logfmt) line, e.g. `srp type=step source=ServerAuthenticate id=... I=alice bits=2048 step=S duration=12.3`.
+ * @param write Where to write each line. Defaults to `console.log`.
+ */
+export function createLogObserver (write: (line: string) => void = console.log): SRPObserver {
+    return (event) => {
+        const fields = Object.entries(event)
+            .filter(([, value]) => value !== undefined)
+            .map(([key, value]) => `${key}=${formatValue(key === 'duration' ? (value as number).toFixed(1) : value)}`);
+        write(`srp ${fields.join(' ')}`);
+    };
+}
+
+function formatValue (value: unknown): string {
+    const str = String(value);
+    return /^[^\s="]+$/.test(str) ? str : JSON.stringify(str);
+}
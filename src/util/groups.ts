@@ -4,6 +4,10 @@
  * License: https://github.com/knokbak/srp-auth
  */
 
+import { ErrorCode, SRPError } from './error';
+import { powMod } from './math';
+import { generateSafePrime, isSafePrime } from './primes';
+
 export type Group = {
     g: bigint;
     N: bigint;
@@ -39,3 +43,155 @@ export const Groups = {
         N: BigInt('0xFFFFFFFFFFFFFFFFC90FDAA22168C234C4C6628B80DC1CD129024E088A67CC74020BBEA63B139B22514A08798E3404DDEF9519B3CD3A431B302B0A6DF25F14374FE1356D6D51C245E485B576625E7EC6F44C42E9A637ED6B0BFF5CB6F406B7EDEE386BFB5A899FA5AE9F24117C4B1FE649286651ECE45B3DC2007CB8A163BF0598DA48361C55D39A69163FA8FD24CF5F83655D23DCA3AD961C62F356208552BB9ED529077096966D670C354E4ABC9804F1746C08CA18217C32905E462E36CE3BE39E772C180E86039B2783A2EC07A28FB5C55DF06F4C52C9DE2BCBF6955817183995497CEA956AE515D2261898FA051015728E5A8AAAC42DAD33170D04507A33A85521ABDF1CBA64ECFB850458DBEF0A8AEA71575D060C7DB3970F85A6E1E4C7ABF5AE8CDB0933D71E8C94E04A25619DCEE3D2261AD2EE6BF12FFA06D98A0864D87602733EC86A64521F2B18177B200CBBE117577A615D6C770988C0BAD946E208E24FA074E5AB3143DB5BFCE0FD108E4B82D120A92108011A723C12A787E6D788719A10BDBA5B2699C327186AF4E23C1A946834B6150BDA2583E9CA2AD44CE8DBBBC2DB04DE8EF92E8EFC141FBECAA6287C59474E6BC05D99B2964FA090C3A2233BA186515BE7ED1F612970CEE2D7AFB81BDD762170481CD0069127D5B05AA993B4EA988D8FDDC186FFB7DC90A6C08F4DF435C93402849236C3FAB4D27C7026C1D4DCB2602646DEC9751E763DBA37BDF8FF9406AD9E530EE5DB382F413001AEB06A53ED9027D831179727B0865A8918DA3EDBEBCF9B14ED44CE6CBACED4BB1BDB7F1447E6CC254B332051512BD7AF426FB8F401378CD2BF5983CA01C64B92ECF032EA15D1721D03F482D7CE6E74FEF6D55E702F46980C82B5A84031900B1C9E59E7C97FBEC7E8F323A97A7E36CC88BE0F1D45B7FF585AC54BD407B22B4154AACC8F6D7EBF48E1D814CC5ED20F8037E0A79715EEF29BE32806A1D58BB7C5DA76F550AA3D8A1FBFF0EB19CCB1A313D55CDA56C9EC2EF29632387FE8D76E3C0468043E8F663F4860EE12BF2D5B0B7474D6E694F91E6DBE115974A3926F12FEE5E438777CB6A932DF8CD8BEC4D073B931BA3BC832B68D9DD300741FA7BF8AFC47ED2576F6936BA424663AAB639C5AE4F5683423B4742BF1C978238F16CBE39D652DE3FDB8BEFC848AD922222E04A4037C0713EB57A81A23F0C73473FC646CEA306B4BCBC8862F8385DDFA9D4B7FA2C087E879683303ED5BDD3A062B3CF5B3A278A66D2A13F83F44F82DDF310EE074AB6A364597E899A0255DC164F31CC50846851DF9AB48195DED7EA1B1D510BD7EE74D73FAF36BC31ECFA268359046F4EB879F924009438B481C6CD7889A002ED5EE382BC9190DA6FC026E479558E4475677E9AA9E3050E2765694DFC81F56E880B96E7160C980DD98EDD3DFFFFFFFFFFFFFFFFF'),
     },
 }
+
+/**
+ * The MODP groups from [RFC 3526](https://datatracker.ietf.org/doc/html/rfc3526). These all use `g = 2`. The 3072-bit and larger primes are the same as those in `Groups`, which use different generators.
+ */
+export const RFC3526Groups = {
+    modp1536: {
+        g: 2n,
+        N: BigInt('0xFFFFFFFFFFFFFFFFC90FDAA22168C234C4C6628B80DC1CD129024E088A67CC74020BBEA63B139B22514A08798E3404DDEF9519B3CD3A431B302B0A6DF25F14374FE1356D6D51C245E485B576625E7EC6F44C42E9A637ED6B0BFF5CB6F406B7EDEE386BFB5A899FA5AE9F24117C4B1FE649286651ECE45B3DC2007CB8A163BF0598DA48361C55D39A69163FA8FD24CF5F83655D23DCA3AD961C62F356208552BB9ED529077096966D670C354E4ABC9804F1746C08CA237327FFFFFFFFFFFFFFFF'),
+    },
+    modp2048: {
+        g: 2n,
+        N: BigInt('0xFFFFFFFFFFFFFFFFC90FDAA22168C234C4C6628B80DC1CD129024E088A67CC74020BBEA63B139B22514A08798E3404DDEF9519B3CD3A431B302B0A6DF25F14374FE1356D6D51C245E485B576625E7EC6F44C42E9A637ED6B0BFF5CB6F406B7EDEE386BFB5A899FA5AE9F24117C4B1FE649286651ECE45B3DC2007CB8A163BF0598DA48361C55D39A69163FA8FD24CF5F83655D23DCA3AD961C62F356208552BB9ED529077096966D670C354E4ABC9804F1746C08CA18217C32905E462E36CE3BE39E772C180E86039B2783A2EC07A28FB5C55DF06F4C52C9DE2BCBF6955817183995497CEA956AE515D2261898FA051015728E5A8AACAA68FFFFFFFFFFFFFFFF'),
+    },
+    modp3072: {
+        g: 2n,
+        N: Groups.b3072.N,
+    },
+    modp4096: {
+        g: 2n,
+        N: Groups.b4096.N,
+    },
+    modp6144: {
+        g: 2n,
+        N: Groups.b6144.N,
+    },
+    modp8192: {
+        g: 2n,
+        N: Groups.b8192.N,
+    },
+}
+
+/**
+ * The group IDs assigned by RFC 3526, used by IKE.
+ */
+const RFC3526IDs: Record<string, keyof typeof RFC3526Groups> = {
+    5: 'modp1536',
+    14: 'modp2048',
+    15: 'modp3072',
+    16: 'modp4096',
+    17: 'modp6144',
+    18: 'modp8192',
+};
+
+/**
+ * Looks up an RFC 3526 group by name. `'modp2048'`, `'MODP-2048'`, `'group14'` and `'14'` all refer to the same group.
+ * @throws {SRPError} if the name does not refer to an RFC 3526 group.
+ */
+export function fromRFC3526 (name: string): Group {
+    const normalised = name.toLowerCase().replace(/[^a-z0-9]/g, '');
+    const id = normalised.replace(/^group/, '');
+    const key = RFC3526IDs[id] ?? normalised;
+
+    if (!(key in RFC3526Groups)) {
+        throw new SRPError(ErrorCode.INVALID_GROUP, `Unknown RFC 3526 group "${name}" - available groups: ${Object.keys(RFC3526Groups).join(', ')}`);
+    }
+    return RFC3526Groups[key as keyof typeof RFC3526Groups];
+}
+
+export type GroupValidationOptions = {
+    /**
+     * The minimum size of `N`, in bits. Defaults to `2048`.
+     */
+    minBits?: number;
+    /**
+     * The number of Miller–Rabin rounds used to test `N` and `(N - 1) / 2`. Defaults to `24`.
+     */
+    rounds?: number;
+}
+
+/**
+ * Groups which have passed `validateGroup(...)`, or were created by `generateGroup(...)`, keyed by `g` and `N`.
+ */
+const validatedGroups = new Set<string>();
+
+function groupKey (group: Group): string {
+    return `${group.g.toString(16)}:${group.N.toString(16)}`;
+}
+
+function isBuiltIn (group: Group): boolean {
+    return [ ...Object.values(Groups), ...Object.values(RFC3526Groups) ].some((known) => known.g === group.g && known.N === group.N);
+}
+
+/**
+ * Checks that a custom group is safe to use:
+ * - `N` is at least `options.minBits` bits.
+ * - `N` is a safe prime, i.e. both `N` and `(N - 1) / 2` pass Miller–Rabin.
+ * - `g` is a proper generator, i.e. `1 < g < N - 1`, so that it generates a subgroup of order `(N - 1) / 2` or `N - 1`.
+ *
+ * Once validated, the group can be passed to `ClientSetup`, `ClientAuthenticate` and `ServerAuthenticate`. This is slow for large groups, so validate each group once (e.g. at startup) and reuse it.
+ * @throws {SRPError} if the group is not safe to use.
+ */
+export async function validateGroup (group: Group, options: GroupValidationOptions = {}): Promise<Group> {
+    const minBits = options.minBits ?? 2048;
+
+    if (typeof group?.g !== 'bigint' || typeof group?.N !== 'bigint') {
+        throw new SRPError(ErrorCode.INVALID_GROUP, 'Invalid group: g and N must be bigints');
+    }
+
+    const bits = group.N.toString(2).length;
+    if (group.N <= 0n || bits < minBits) {
+        throw new SRPError(ErrorCode.INVALID_GROUP, `Invalid group: N is ${bits} bits, but at least ${minBits} bits are required`);
+    }
+
+    // g must not be 0, 1 or N - 1, as these only generate subgroups of order 1 or 2
+    if (group.g <= 1n || group.g >= group.N - 1n) {
+        throw new SRPError(ErrorCode.INVALID_GROUP, 'Invalid group: g must be between 1 and N - 1');
+    }
+
+    // the built-in groups are already known to be safe
+    if (!isBuiltIn(group) && !validatedGroups.has(groupKey(group))) {
+        // let other work run before the (slow) primality tests
+        await new Promise((resolve) => setTimeout(resolve, 0));
+        if (!isSafePrime(group.N, options.rounds)) {
+            throw new SRPError(ErrorCode.INVALID_GROUP, 'Invalid group: N is not a safe prime');
+        }
+    }
+
+    // in a safe prime group, the only orders are 1, 2, (N - 1) / 2 and N - 1
+    if (powMod(group.g, 2n, group.N) === 1n) {
+        throw new SRPError(ErrorCode.INVALID_GROUP, 'Invalid group: g must not have order 2');
+    }
+
+    validatedGroups.add(groupKey(group));
+    return group;
+}
+
+/**
+ * Generates a new group with a random safe prime `N` of `bits` bits, and `g = 2`. The group is validated automatically.
+ * > ⚠️ **Warning**: This is very slow for large sizes, and can take a long time for 2048 bits or more. Prefer one of the built-in groups where possible.
+ */
+export async function generateGroup (bits: number): Promise<Group> {
+    const N = await generateSafePrime(bits);
+
+    // for a safe prime N > 7, 2 always generates a subgroup of order (N - 1) / 2 or N - 1
+    const group = { g: 2n, N };
+    validatedGroups.add(groupKey(group));
+    return group;
+}
+
+/**
+ * Throws unless the group is built in, has been validated with `validateGroup(...)`, or the caller has opted in to unvalidated groups.
+ * @internal
+ */
+export function checkGroup (group: Group, allowUnvalidated?: boolean): void {
+    if (typeof group?.g !== 'bigint' || typeof group?.N !== 'bigint') {
+        throw new SRPError(ErrorCode.INVALID_GROUP, 'Invalid group: g and N must be bigints');
+    }
+
+    if (!allowUnvalidated && !isBuiltIn(group) && !validatedGroups.has(groupKey(group))) {
+        throw new SRPError(ErrorCode.INVALID_GROUP, 'Custom groups must be validated with validateGroup(...) before use. Pass allowUnvalidatedGroup: true to skip this check, but only if you trust where the group came from!');
+    }
+}
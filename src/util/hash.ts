@@ -4,22 +4,37 @@
  * License: https://github.com/knokbak/srp-auth
  */
 
-import { createSHA256, createSHA384, createSHA512, createSHA3 } from 'hash-wasm';
+import { createBLAKE2b, createBLAKE3, createSHA1, createSHA256, createSHA384, createSHA512, createSHA3 } from 'hash-wasm';
 import { type IHasher } from 'hash-wasm/dist/lib/WASMInterface';
-import { SRPError } from './error';
+import { ErrorCode, SRPError } from './error';
 
 export enum Algorithm {
+    /**
+     * SHA-1 is only provided for interoperability with RFC 5054 (which uses SHA-1 in its test vectors) and older SRP implementations. Prefer a SHA-2 or SHA-3 algorithm.
+     */
+    SHA_1 = 'SHA-1',
     SHA_256 = 'SHA-256',
     SHA_384 = 'SHA-384',
     SHA_512 = 'SHA-512',
     SHA3_256 = 'SHA3-256',
     SHA3_384 = 'SHA3-384',
     SHA3_512 = 'SHA3-512',
+    /**
+     * BLAKE2b with a 512-bit output, as described by [RFC 7693](https://datatracker.ietf.org/doc/html/rfc7693). Not available from `NativeHashProvider` in browsers.
+     */
+    BLAKE2b_512 = 'BLAKE2b-512',
+    /**
+     * BLAKE3 with a 256-bit output. Only available from `WASMHashProvider`.
+     */
+    BLAKE3 = 'BLAKE3',
 }
 
 export type Hashable = Uint8Array | string;
 
-export async function hash (algorithm: Algorithm, input: Hashable[]): Promise<Uint8Array> {
+/**
+ * Computes a hash over every part of `input`, in order. Strings are UTF-8 encoded. Uses `provider` if provided, otherwise hash-wasm.
+ */
+export async function hash (algorithm: Algorithm, input: Hashable[], provider: HashProvider = wasmProvider): Promise<Uint8Array> {
     // convert all strings to Uint8Arrays
     for (let i = 0; i < input.length; i++) {
         if (typeof input[i] === 'string') {
@@ -37,26 +52,127 @@ export async function hash (algorithm: Algorithm, input: Hashable[]): Promise<Ui
         offset += data[i].length;
     }
 
-    // choose the correct hashing algorithm, then hash the combined Uint8Array. return the resulting Uint8Array
+    // hash the combined Uint8Array using the chosen provider. return the resulting Uint8Array
+    return provider.digest(algorithm, arr);
+}
+
+/**
+ * Computes hashes for `hash(...)`. Every provider must produce the same output for the same algorithm, so a provider can be swapped without affecting existing verifiers.
+ */
+export interface HashProvider {
+    /**
+     * Hashes `data` using `algorithm`.
+     * @throws {SRPError} `INVALID_ALGORITHM` if the algorithm is not supported by this provider.
+     */
+    digest (algorithm: Algorithm, data: Uint8Array): Promise<Uint8Array>;
+}
+
+/**
+ * Hashes using [hash-wasm](https://github.com/Daninet/hash-wasm), which supports every algorithm in every runtime that can instantiate WebAssembly. This is the default provider.
+ */
+export class WASMHashProvider implements HashProvider {
+    public async digest (algorithm: Algorithm, data: Uint8Array): Promise<Uint8Array> {
+        // reuse the hasher for the chosen algorithm
+        return hashBuffer(await getHasher(algorithm), data);
+    }
+}
+
+/**
+ * Node.js names for each algorithm supported by `node:crypto`.
+ */
+const NODE_ALGORITHMS: Partial<Record<Algorithm, string>> = {
+    [Algorithm.SHA_1]: 'sha1',
+    [Algorithm.SHA_256]: 'sha256',
+    [Algorithm.SHA_384]: 'sha384',
+    [Algorithm.SHA_512]: 'sha512',
+    [Algorithm.SHA3_256]: 'sha3-256',
+    [Algorithm.SHA3_384]: 'sha3-384',
+    [Algorithm.SHA3_512]: 'sha3-512',
+    [Algorithm.BLAKE2b_512]: 'blake2b512',
+};
+
+/**
+ * The algorithms supported by WebCrypto's `subtle.digest(...)`, which uses the same names as `Algorithm`.
+ */
+const WEB_ALGORITHMS: Algorithm[] = [ Algorithm.SHA_1, Algorithm.SHA_256, Algorithm.SHA_384, Algorithm.SHA_512 ];
+
+/**
+ * Hashes using the runtime's own implementation: `node:crypto` in Node.js, and WebCrypto's `subtle.digest(...)` elsewhere. Use this where WebAssembly cannot be instantiated, e.g. under a strict Content Security Policy.
+ *
+ * `node:crypto` supports every algorithm except BLAKE3. WebCrypto only supports SHA-1 and SHA-2.
+ */
+export class NativeHashProvider implements HashProvider {
+    /**
+     * Checks whether `algorithm` can be used with this provider in the current runtime.
+     */
+    public supports (algorithm: Algorithm): boolean {
+        return isNode() ? algorithm in NODE_ALGORITHMS : WEB_ALGORITHMS.includes(algorithm);
+    }
+
+    public async digest (algorithm: Algorithm, data: Uint8Array): Promise<Uint8Array> {
+        if (!this.supports(algorithm)) {
+            throw new SRPError(ErrorCode.INVALID_ALGORITHM, `The algorithm "${algorithm}" is not supported by the native hash provider in this runtime`);
+        }
+
+        if (isNode()) {
+            return new Uint8Array(require('crypto').createHash(NODE_ALGORITHMS[algorithm]).update(data).digest());
+        }
+        // WebCrypto does not accept views over a SharedArrayBuffer, so the data is copied first
+        return new Uint8Array(await globalThis.crypto.subtle.digest(algorithm, data.slice().buffer as ArrayBuffer));
+    }
+}
+
+function isNode (): boolean {
+    return typeof process !== 'undefined' && !!process.versions?.node;
+}
+
+const wasmProvider = new WASMHashProvider();
+
+const hashers = new Map<Algorithm, Promise<IHasher>>();
+
+/**
+ * Returns a hasher for the chosen algorithm, which is shared by every `WASMHashProvider`. Creating a hasher instantiates a WASM module, which is far slower than the hashing itself.
+ */
+function getHasher (algorithm: Algorithm): Promise<IHasher> {
+    let hasher = hashers.get(algorithm);
+    if (!hasher) {
+        hasher = createHasher(algorithm);
+        // don't cache failures, e.g. an invalid algorithm
+        hasher.catch(() => hashers.delete(algorithm));
+        hashers.set(algorithm, hasher);
+    }
+    return hasher;
+}
+
+export function createHasher (algorithm: Algorithm): Promise<IHasher> {
+    // choose the correct hashing algorithm
     switch (algorithm) {
+        case Algorithm.SHA_1:
+            return createSHA1();
         case Algorithm.SHA_256:
-            return hashBuffer(await createSHA256(), arr);
+            return createSHA256();
         case Algorithm.SHA_384:
-            return hashBuffer(await createSHA384(), arr);
+            return createSHA384();
         case Algorithm.SHA_512:
-            return hashBuffer(await createSHA512(), arr);
+            return createSHA512();
         case Algorithm.SHA3_256:
-            return hashBuffer(await createSHA3(256), arr);
+            return createSHA3(256);
         case Algorithm.SHA3_384:
-            return hashBuffer(await createSHA3(384), arr);
+            return createSHA3(384);
         case Algorithm.SHA3_512:
-            return hashBuffer(await createSHA3(512), arr);
+            return createSHA3(512);
+        case Algorithm.BLAKE2b_512:
+            return createBLAKE2b(512);
+        case Algorithm.BLAKE3:
+            return createBLAKE3(256);
         default:
-            throw new SRPError(`Invalid algorithm "${algorithm}" - available algorithms: ${Object.values(Algorithm).join(', ')}`);
+            throw new SRPError(ErrorCode.INVALID_ALGORITHM, `Invalid algorithm "${algorithm}" - available algorithms: ${Object.values(Algorithm).join(', ')}`);
     }
 }
 
 function hashBuffer (hasher: IHasher, buffer: Uint8Array): Uint8Array {
+    // the hasher is shared, so this must run synchronously from init() to digest()
+    hasher.init();
     hasher.update(buffer);
     return hasher.digest('binary');
 }
@@ -0,0 +1,142 @@
+/*
+ * BSD 3-Clause License
+ * Copyright (c) 2024, Ollie Killean
+ * License: https://github.com/knokbak/srp-auth
+ */
+
+import { argon2id, pbkdf2, scrypt } from 'hash-wasm';
+import { ErrorCode, SRPError } from './error';
+import { Algorithm, createHasher } from './hash';
+
+export enum KDF {
+    /**
+     * No key derivation function. `x` is computed with a single hash, as it was originally.
+     */
+    None = 'none',
+    Argon2id = 'argon2id',
+    Scrypt = 'scrypt',
+    PBKDF2 = 'pbkdf2',
+}
+
+export type KDFParams = {
+    kdf: KDF.None;
+} | {
+    kdf: KDF.Argon2id;
+    /**
+     * The number of passes over memory (`t`).
+     */
+    iterations: number;
+    /**
+     * The amount of memory to use, in KiB (`m`).
+     */
+    memorySize: number;
+    /**
+     * The degree of parallelism (`p`).
+     */
+    parallelism: number;
+} | {
+    kdf: KDF.Scrypt;
+    /**
+     * The CPU/memory cost factor (`N`). Must be a power of two.
+     */
+    costFactor: number;
+    /**
+     * The block size (`r`).
+     */
+    blockSize: number;
+    /**
+     * The parallelisation factor (`p`).
+     */
+    parallelism: number;
+} | {
+    kdf: KDF.PBKDF2;
+    /**
+     * The number of iterations.
+     */
+    iterations: number;
+    /**
+     * The HMAC hashing algorithm. Defaults to the SRP hashing algorithm.
+     */
+    algorithm?: Algorithm;
+}
+
+/**
+ * Recommended parameter sets for each KDF, based on the [OWASP password storage cheat sheet](https://cheatsheetseries.owasp.org/cheatsheets/Password_Storage_Cheat_Sheet.html).
+ */
+export const KDFPresets: Record<'none' | 'argon2id' | 'scrypt' | 'pbkdf2', KDFParams> = {
+    none: { kdf: KDF.None },
+    argon2id: { kdf: KDF.Argon2id, iterations: 2, memorySize: 19456, parallelism: 1 },
+    scrypt: { kdf: KDF.Scrypt, costFactor: 131072, blockSize: 8, parallelism: 1 },
+    pbkdf2: { kdf: KDF.PBKDF2, iterations: 600000, algorithm: Algorithm.SHA_256 },
+};
+
+/**
+ * Stretches `input` using the chosen KDF and the user's salt (`s`). The result has the same length as `input`.
+ */
+export async function derive (params: KDFParams, algorithm: Algorithm, input: Uint8Array, salt: Uint8Array): Promise<Uint8Array> {
+    validateKDF(params);
+
+    switch (params.kdf) {
+        case KDF.None:
+            return input;
+        case KDF.Argon2id:
+            return argon2id({
+                password: input,
+                salt,
+                iterations: params.iterations,
+                memorySize: params.memorySize,
+                parallelism: params.parallelism,
+                hashLength: input.length,
+                outputType: 'binary',
+            });
+        case KDF.Scrypt:
+            return scrypt({
+                password: input,
+                salt,
+                costFactor: params.costFactor,
+                blockSize: params.blockSize,
+                parallelism: params.parallelism,
+                hashLength: input.length,
+                outputType: 'binary',
+            });
+        case KDF.PBKDF2:
+            return pbkdf2({
+                password: input,
+                salt,
+                iterations: params.iterations,
+                hashLength: input.length,
+                hashFunction: createHasher(params.algorithm ?? algorithm),
+                outputType: 'binary',
+            });
+    }
+}
+
+/**
+ * Checks that the KDF and its parameters are valid.
+ * @throws {SRPError} if the KDF is unknown, or its parameters are invalid.
+ */
+export function validateKDF (params: KDFParams): void {
+    const isPositive = (n: number) => Number.isInteger(n) && n > 0;
+
+    switch (params?.kdf) {
+        case KDF.None:
+            return;
+        case KDF.Argon2id:
+            if (!isPositive(params.iterations) || !isPositive(params.parallelism) || !isPositive(params.memorySize) || params.memorySize < 8 * params.parallelism) {
+                throw new SRPError(ErrorCode.INVALID_KDF, 'Invalid Argon2id parameters - iterations and parallelism must be positive integers, and memorySize must be at least 8 * parallelism');
+            }
+            return;
+        case KDF.Scrypt:
+            if (!isPositive(params.costFactor) || params.costFactor < 2 || (params.costFactor & (params.costFactor - 1)) !== 0 || !isPositive(params.blockSize) || !isPositive(params.parallelism)) {
+                throw new SRPError(ErrorCode.INVALID_KDF, 'Invalid scrypt parameters - costFactor must be a power of two greater than 1, and blockSize and parallelism must be positive integers');
+            }
+            return;
+        case KDF.PBKDF2:
+            if (!isPositive(params.iterations)) {
+                throw new SRPError(ErrorCode.INVALID_KDF, 'Invalid PBKDF2 parameters - iterations must be a positive integer');
+            }
+            return;
+        default:
+            throw new SRPError(ErrorCode.INVALID_KDF, `Invalid KDF "${(params as { kdf?: string })?.kdf}" - available KDFs: ${Object.values(KDF).join(', ')}`);
+    }
+}
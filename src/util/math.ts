@@ -4,21 +4,27 @@
  * License: https://github.com/knokbak/srp-auth
  */
 
+import { ErrorCode, SRPError } from './error';
+
 export function toBigInt (arr: Uint8Array): bigint {
     let hex = '';
     for (let i = 0; i < arr.length; i++) {
         hex += arr[i].toString(16).padStart(2, '0');
     }
-    return BigInt('0x' + hex);
+    return BigInt('0x' + (hex || '0'));
 }
 
 export function toUint8Array (n: bigint | string): Uint8Array {
-    if (typeof n === 'string') {
-        n = BigInt(n.startsWith('0x') ? n : '0x' + n);
+    // hex strings keep their leading zeros, so that salts and hashes decode to their original length
+    let hex = typeof n === 'string' ? n.replace(/^0x/, '') : n.toString(16);
+    if (!/^[0-9a-fA-F]*$/.test(hex)) {
+        throw new SRPError(ErrorCode.INVALID_INPUT, 'Invalid hex string');
+    }
+    if (hex.length % 2 === 1) {
+        hex = '0' + hex;
     }
 
-    const hex = n.toString(16);
-    const arr = new Uint8Array(Math.ceil(hex.length / 2));
+    const arr = new Uint8Array(hex.length / 2);
     for (let i = 0; i < hex.length; i += 2) {
         arr[i / 2] = parseInt(hex.slice(i, i + 2), 16);
     }
@@ -37,6 +43,50 @@ export function toHex (arr: Uint8Array | bigint): string {
     return hex;
 }
 
+const BASE64 = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+
+/**
+ * Encodes `arr` as base64, without padding.
+ */
+export function toBase64 (arr: Uint8Array): string {
+    let out = '';
+    for (let i = 0; i < arr.length; i += 3) {
+        const n = (arr[i] << 16) | ((arr[i + 1] ?? 0) << 8) | (arr[i + 2] ?? 0);
+        out += BASE64[(n >> 18) & 63] + BASE64[(n >> 12) & 63];
+        if (i + 1 < arr.length) {
+            out += BASE64[(n >> 6) & 63];
+        }
+        if (i + 2 < arr.length) {
+            out += BASE64[n & 63];
+        }
+    }
+    return out;
+}
+
+/**
+ * Decodes base64, with or without padding.
+ */
+export function fromBase64 (str: string): Uint8Array {
+    str = str.replace(/=+$/, '');
+    if (!/^[A-Za-z0-9+/]*$/.test(str) || str.length % 4 === 1) {
+        throw new SRPError(ErrorCode.INVALID_INPUT, 'Invalid base64 string');
+    }
+
+    const arr = new Uint8Array(Math.floor(str.length * 3 / 4));
+    let bits = 0;
+    let value = 0;
+    let offset = 0;
+    for (let i = 0; i < str.length; i++) {
+        value = (value << 6) | BASE64.indexOf(str[i]);
+        bits += 6;
+        if (bits >= 8) {
+            bits -= 8;
+            arr[offset++] = (value >> bits) & 255;
+        }
+    }
+    return arr;
+}
+
 export function toString (data: Uint8Array | bigint): string {
     if (data instanceof Uint8Array) {
         return new TextDecoder().decode(data);
@@ -45,30 +95,123 @@ export function toString (data: Uint8Array | bigint): string {
     }
 }
 
-export function powMod(base: bigint, exp: bigint, p: bigint): bigint {
+/**
+ * Computes `base ^ exp % p` using sliding-window exponentiation. The window size grows with the size of `exp`, so that fewer multiplications are needed for large exponents.
+ */
+export function powMod (base: bigint, exp: bigint, p: bigint): bigint {
+    if (exp < 0n) {
+        throw new SRPError(ErrorCode.INVALID_INPUT, 'Exponent must not be negative');
+    }
+
+    // % in JavaScript takes the sign of the dividend, so the base is kept positive
+    base = ((base % p) + p) % p;
+
+    const bits = exp.toString(2);
+    const window = bits.length > 512 ? 5 : bits.length > 128 ? 4 : bits.length > 24 ? 3 : 1;
+
+    // precompute the odd powers of the base: base ^ 1, base ^ 3, ..., base ^ (2 ^ window - 1)
+    const square = base * base % p;
+    const odd = [ base ];
+    for (let i = 1; i < 1 << (window - 1); i++) {
+        odd.push(odd[i - 1] * square % p);
+    }
+
     let result = 1n;
+    let i = 0;
+    while (i < bits.length) {
+        if (bits[i] === '0') {
+            result = result * result % p;
+            i++;
+            continue;
+        }
 
-    while (exp !== 0n) {
-        if (exp % 2n === 1n) {
-            result = result * base % p;
+        // take the longest window (up to the window size) which ends in a 1
+        let j = Math.min(i + window, bits.length);
+        while (bits[j - 1] === '0') {
+            j--;
         }
-        base = base * base % p;
-        exp >>= 1n;
+
+        for (let k = i; k < j; k++) {
+            result = result * result % p;
+        }
+        result = result * odd[(parseInt(bits.slice(i, j), 2) - 1) / 2] % p;
+        i = j;
+    }
+
+    return result % p;
+}
+
+/**
+ * The number of exponent bits covered by each row of a fixed-base table.
+ */
+const FIXED_BASE_WINDOW = 4;
+/**
+ * The maximum number of fixed-base tables to keep. The built-in `Groups` only need one table each.
+ */
+const FIXED_BASE_CACHE_SIZE = 16;
+const fixedBaseTables = new Map<string, bigint[][]>();
+
+/**
+ * Computes `g ^ exp % N` using a precomputed table for `g`, which is cached for each group. This is much faster than `powMod(...)` when the same `g` and `N` are used repeatedly, as no squaring is needed once the table has been built.
+ */
+export function powModFixed (g: bigint, exp: bigint, N: bigint): bigint {
+    if (exp < 0n) {
+        throw new SRPError(ErrorCode.INVALID_INPUT, 'Exponent must not be negative');
+    }
+
+    const key = `${g.toString(16)}:${N.toString(16)}`;
+    let rows = fixedBaseTables.get(key);
+    if (!rows) {
+        if (fixedBaseTables.size >= FIXED_BASE_CACHE_SIZE) {
+            fixedBaseTables.delete(fixedBaseTables.keys().next().value as string);
+        }
+        rows = [];
+        fixedBaseTables.set(key, rows);
+    }
+
+    // rows[j][d] = g ^ (d * 2 ^ (FIXED_BASE_WINDOW * j)) % N
+    // the table is only extended when a larger exponent than before is used
+    const windows = Math.ceil(exp.toString(2).length / FIXED_BASE_WINDOW);
+    while (rows.length < windows) {
+        let base = rows.length === 0 ? ((g % N) + N) % N : rows[rows.length - 1][1];
+        if (rows.length > 0) {
+            for (let i = 0; i < FIXED_BASE_WINDOW; i++) {
+                base = base * base % N;
+            }
+        }
+
+        const row = [ 1n, base ];
+        for (let d = 2; d < 1 << FIXED_BASE_WINDOW; d++) {
+            row.push(row[d - 1] * base % N);
+        }
+        rows.push(row);
     }
 
-    return result;
+    const mask = BigInt((1 << FIXED_BASE_WINDOW) - 1);
+    let result = 1n;
+    for (let j = 0; exp > 0n; j++) {
+        const digit = Number(exp & mask);
+        if (digit !== 0) {
+            result = result * rows[j][digit] % N;
+        }
+        exp >>= BigInt(FIXED_BASE_WINDOW);
+    }
+
+    return result % N;
 }
 
-export function doesMatch (a: Uint8Array, b: Uint8Array): boolean {
+/**
+ * Compares two values in constant time, so that the time taken does not reveal how many leading bytes match. Use this for proofs (`M1`, `M2`) and other secrets. Only the lengths, which are public, can end the comparison early.
+ */
+export function timingSafeEqual (a: Uint8Array, b: Uint8Array): boolean {
     if (a.length !== b.length) {
         return false;
     }
 
+    let difference = 0;
     for (let i = 0; i < a.length; i++) {
-        if (a[i] !== b[i]) {
-            return false;
-        }
+        difference |= a[i] ^ b[i];
     }
 
-    return true;
+    return difference === 0;
 }
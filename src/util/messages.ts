@@ -0,0 +1,423 @@
+/*
+ * BSD 3-Clause License
+ * Copyright (c) 2024, Ollie Killean
+ * License: https://github.com/knokbak/srp-auth
+ */
+
+import { ErrorCode, SRPError } from './error';
+import { Algorithm } from './hash';
+import { KDF, KDFParams, validateKDF } from './kdf';
+import { toHex, toUint8Array } from './math';
+import { Normalization } from './normalize';
+
+/**
+ * The current version of the handshake message format.
+ */
+export const MESSAGE_VERSION = 1;
+
+export enum MessageType {
+    /**
+     * Sent by the client to start the handshake. Contains `I` and `A`.
+     */
+    Hello = 'hello',
+    /**
+     * Sent by the server in response to `Hello`. Contains `s`, `B`, the KDF parameters and the normalisation.
+     */
+    Challenge = 'challenge',
+    /**
+     * Sent by the client in response to `Challenge`. Contains `M1`.
+     */
+    Proof = 'proof',
+    /**
+     * Sent by the server in response to `Proof`. Contains `M2`.
+     */
+    Verify = 'verify',
+    /**
+     * Sent by either party to end the handshake early.
+     */
+    Abort = 'abort',
+}
+
+export type HelloMessage = {
+    type: MessageType.Hello;
+    I: string;
+    A: Uint8Array;
+}
+
+export type ChallengeMessage = {
+    type: MessageType.Challenge;
+    s: Uint8Array;
+    B: Uint8Array;
+    kdf: KDFParams;
+    /**
+     * How the username and password were normalised. If undefined, `Normalization.None` was used.
+     */
+    normalization?: Normalization;
+}
+
+export type ProofMessage = {
+    type: MessageType.Proof;
+    M1: Uint8Array;
+}
+
+export type VerifyMessage = {
+    type: MessageType.Verify;
+    M2: Uint8Array;
+}
+
+export type AbortMessage = {
+    type: MessageType.Abort;
+    /**
+     * Why the handshake was aborted.
+     */
+    code: ErrorCode;
+}
+
+export type HandshakeMessage = HelloMessage | ChallengeMessage | ProofMessage | VerifyMessage | AbortMessage;
+
+/**
+ * The identifier of each message type in the binary encoding.
+ */
+const TYPE_IDS: Record<MessageType, number> = {
+    [MessageType.Hello]: 1,
+    [MessageType.Challenge]: 2,
+    [MessageType.Proof]: 3,
+    [MessageType.Verify]: 4,
+    [MessageType.Abort]: 5,
+};
+
+/**
+ * The identifier of each KDF in the binary encoding.
+ */
+const KDF_IDS: Record<KDF, number> = {
+    [KDF.None]: 0,
+    [KDF.Argon2id]: 1,
+    [KDF.Scrypt]: 2,
+    [KDF.PBKDF2]: 3,
+};
+
+/**
+ * The identifier of each normalisation in the binary encoding.
+ */
+const NORMALIZATION_IDS: Record<Normalization, number> = {
+    [Normalization.None]: 0,
+    [Normalization.NFKC]: 1,
+    [Normalization.SASLprep]: 2,
+    [Normalization.PRECIS]: 3,
+};
+
+/**
+ * Encodes a handshake message as versioned JSON, such as `{"v":1,"type":"proof","M1":"<hex>"}`. Binary values are hex encoded.
+ */
+export function encodeMessage (message: HandshakeMessage): string {
+    switch (message.type) {
+        case MessageType.Hello:
+            return JSON.stringify({ v: MESSAGE_VERSION, type: message.type, I: message.I, A: toHex(message.A) });
+        case MessageType.Challenge:
+            return JSON.stringify({ v: MESSAGE_VERSION, type: message.type, s: toHex(message.s), B: toHex(message.B), kdf: message.kdf, normalization: message.normalization });
+        case MessageType.Proof:
+            return JSON.stringify({ v: MESSAGE_VERSION, type: message.type, M1: toHex(message.M1) });
+        case MessageType.Verify:
+            return JSON.stringify({ v: MESSAGE_VERSION, type: message.type, M2: toHex(message.M2) });
+        case MessageType.Abort:
+            return JSON.stringify({ v: MESSAGE_VERSION, type: message.type, code: message.code });
+        default:
+            throw new SRPError(ErrorCode.INVALID_MESSAGE, `Unknown message type "${(message as { type?: string }).type}"`);
+    }
+}
+
+/**
+ * Encodes a handshake message in a compact binary format: a version byte, a type byte, then each field prefixed with its length.
+ */
+export function encodeBinaryMessage (message: HandshakeMessage): Uint8Array {
+    const writer = new Writer();
+    writer.byte(MESSAGE_VERSION);
+    writer.byte(TYPE_IDS[message.type]);
+
+    switch (message.type) {
+        case MessageType.Hello:
+            writer.string(message.I);
+            writer.bytes(message.A);
+            break;
+        case MessageType.Challenge:
+            writer.bytes(message.s);
+            writer.bytes(message.B);
+            writeKDF(writer, message.kdf);
+            // the normalisation is only appended when it is needed, so that older clients can still read the message
+            if (message.normalization && message.normalization !== Normalization.None) {
+                writer.byte(NORMALIZATION_IDS[message.normalization]);
+            }
+            break;
+        case MessageType.Proof:
+            writer.bytes(message.M1);
+            break;
+        case MessageType.Verify:
+            writer.bytes(message.M2);
+            break;
+        case MessageType.Abort:
+            writer.string(message.code);
+            break;
+        default:
+            throw new SRPError(ErrorCode.INVALID_MESSAGE, `Unknown message type "${(message as { type?: string }).type}"`);
+    }
+
+    return writer.finish();
+}
+
+/**
+ * Decodes a handshake message. Strings are decoded as JSON (see `encodeMessage(...)`), and Uint8Arrays are decoded as binary (see `encodeBinaryMessage(...)`).
+ * @throws {SRPError} if the message is malformed, or uses an unsupported version.
+ */
+export function decodeMessage (data: string | Uint8Array): HandshakeMessage {
+    return typeof data === 'string' ? decodeJSON(data) : decodeBinary(data);
+}
+
+function decodeJSON (data: string): HandshakeMessage {
+    let json: Record<string, unknown>;
+    try {
+        json = JSON.parse(data);
+    } catch {
+        throw new SRPError(ErrorCode.INVALID_MESSAGE, 'Invalid message: not valid JSON');
+    }
+
+    if (typeof json !== 'object' || json === null) {
+        throw new SRPError(ErrorCode.INVALID_MESSAGE, 'Invalid message: expected an object');
+    }
+
+    if (json.v !== MESSAGE_VERSION) {
+        throw new SRPError(ErrorCode.INVALID_MESSAGE, `Invalid message: unsupported version "${json.v}"`);
+    }
+
+    const string = (key: string): string => {
+        if (typeof json[key] !== 'string') {
+            throw new SRPError(ErrorCode.INVALID_MESSAGE, `Invalid message: "${key}" must be a string`);
+        }
+        return json[key] as string;
+    };
+    const bytes = (key: string): Uint8Array => {
+        try {
+            return toUint8Array(string(key));
+        } catch {
+            throw new SRPError(ErrorCode.INVALID_MESSAGE, `Invalid message: "${key}" must be hex encoded`);
+        }
+    };
+
+    switch (json.type) {
+        case MessageType.Hello:
+            return { type: MessageType.Hello, I: string('I'), A: bytes('A') };
+        case MessageType.Challenge: {
+            const kdf = json.kdf as KDFParams;
+            validateKDF(kdf);
+            if (kdf.kdf === KDF.PBKDF2 && kdf.algorithm !== undefined) {
+                kdf.algorithm = getAlgorithm(kdf.algorithm);
+            }
+            if (json.normalization !== undefined && !Object.values(Normalization).includes(json.normalization as Normalization)) {
+                throw new SRPError(ErrorCode.INVALID_MESSAGE, `Invalid message: unknown normalization "${json.normalization}"`);
+            }
+            const message: ChallengeMessage = { type: MessageType.Challenge, s: bytes('s'), B: bytes('B'), kdf };
+            if (json.normalization !== undefined) {
+                message.normalization = json.normalization as Normalization;
+            }
+            return message;
+        }
+        case MessageType.Proof:
+            return { type: MessageType.Proof, M1: bytes('M1') };
+        case MessageType.Verify:
+            return { type: MessageType.Verify, M2: bytes('M2') };
+        case MessageType.Abort:
+            return { type: MessageType.Abort, code: getErrorCode(string('code')) };
+        default:
+            throw new SRPError(ErrorCode.INVALID_MESSAGE, `Invalid message: unknown type "${json.type}"`);
+    }
+}
+
+function decodeBinary (data: Uint8Array): HandshakeMessage {
+    const reader = new Reader(data);
+
+    const version = reader.byte();
+    if (version !== MESSAGE_VERSION) {
+        throw new SRPError(ErrorCode.INVALID_MESSAGE, `Invalid message: unsupported version "${version}"`);
+    }
+
+    const typeId = reader.byte();
+    const type = (Object.keys(TYPE_IDS) as MessageType[]).find((key) => TYPE_IDS[key] === typeId);
+
+    let message: HandshakeMessage;
+    switch (type) {
+        case MessageType.Hello:
+            message = { type, I: reader.string(), A: reader.bytes() };
+            break;
+        case MessageType.Challenge:
+            message = { type, s: reader.bytes(), B: reader.bytes(), kdf: readKDF(reader) };
+            if (!reader.done()) {
+                message.normalization = readNormalization(reader);
+            }
+            break;
+        case MessageType.Proof:
+            message = { type, M1: reader.bytes() };
+            break;
+        case MessageType.Verify:
+            message = { type, M2: reader.bytes() };
+            break;
+        case MessageType.Abort:
+            message = { type, code: getErrorCode(reader.string()) };
+            break;
+        default:
+            throw new SRPError(ErrorCode.INVALID_MESSAGE, `Invalid message: unknown type "${typeId}"`);
+    }
+
+    reader.end();
+    return message;
+}
+
+function writeKDF (writer: Writer, kdf: KDFParams): void {
+    validateKDF(kdf);
+    writer.byte(KDF_IDS[kdf.kdf]);
+
+    switch (kdf.kdf) {
+        case KDF.None:
+            break;
+        case KDF.Argon2id:
+            writer.uint32(kdf.iterations);
+            writer.uint32(kdf.memorySize);
+            writer.uint32(kdf.parallelism);
+            break;
+        case KDF.Scrypt:
+            writer.uint32(kdf.costFactor);
+            writer.uint32(kdf.blockSize);
+            writer.uint32(kdf.parallelism);
+            break;
+        case KDF.PBKDF2:
+            writer.uint32(kdf.iterations);
+            // an empty string means the SRP hashing algorithm
+            writer.string(kdf.algorithm ?? '');
+            break;
+    }
+}
+
+function readKDF (reader: Reader): KDFParams {
+    const id = reader.byte();
+
+    let kdf: KDFParams;
+    switch ((Object.keys(KDF_IDS) as KDF[]).find((key) => KDF_IDS[key] === id)) {
+        case KDF.None:
+            kdf = { kdf: KDF.None };
+            break;
+        case KDF.Argon2id:
+            kdf = { kdf: KDF.Argon2id, iterations: reader.uint32(), memorySize: reader.uint32(), parallelism: reader.uint32() };
+            break;
+        case KDF.Scrypt:
+            kdf = { kdf: KDF.Scrypt, costFactor: reader.uint32(), blockSize: reader.uint32(), parallelism: reader.uint32() };
+            break;
+        case KDF.PBKDF2: {
+            kdf = { kdf: KDF.PBKDF2, iterations: reader.uint32() };
+            const algorithm = reader.string();
+            if (algorithm) {
+                kdf.algorithm = getAlgorithm(algorithm);
+            }
+            break;
+        }
+        default:
+            throw new SRPError(ErrorCode.INVALID_MESSAGE, `Invalid message: unknown KDF "${id}"`);
+    }
+
+    validateKDF(kdf);
+    return kdf;
+}
+
+/**
+ * Checks the PBKDF2 hashing algorithm in a `Challenge`, which is used by both encodings.
+ */
+function getAlgorithm (algorithm: unknown): Algorithm {
+    if (!Object.values(Algorithm).includes(algorithm as Algorithm)) {
+        throw new SRPError(ErrorCode.INVALID_MESSAGE, `Invalid message: unknown algorithm "${algorithm}"`);
+    }
+    return algorithm as Algorithm;
+}
+
+function readNormalization (reader: Reader): Normalization {
+    const id = reader.byte();
+    const normalization = (Object.keys(NORMALIZATION_IDS) as Normalization[]).find((key) => NORMALIZATION_IDS[key] === id);
+    if (!normalization) {
+        throw new SRPError(ErrorCode.INVALID_MESSAGE, `Invalid message: unknown normalization "${id}"`);
+    }
+    return normalization;
+}
+
+function getErrorCode (code: string): ErrorCode {
+    // codes added by newer versions are still reported, rather than rejecting the whole message
+    return Object.values(ErrorCode).includes(code as ErrorCode) ? code as ErrorCode : ErrorCode.ABORTED;
+}
+
+class Writer {
+    private readonly chunks: number[] = [];
+
+    public byte (value: number): void {
+        this.chunks.push(value & 0xff);
+    }
+
+    public uint32 (value: number): void {
+        this.chunks.push((value >>> 24) & 0xff, (value >>> 16) & 0xff, (value >>> 8) & 0xff, value & 0xff);
+    }
+
+    public bytes (value: Uint8Array): void {
+        if (value.length > 0xffff) {
+            throw new SRPError(ErrorCode.INVALID_MESSAGE, 'Message fields must be at most 65535 bytes');
+        }
+        this.chunks.push((value.length >>> 8) & 0xff, value.length & 0xff, ...value);
+    }
+
+    public string (value: string): void {
+        this.bytes(new TextEncoder().encode(value));
+    }
+
+    public finish (): Uint8Array {
+        return new Uint8Array(this.chunks);
+    }
+}
+
+class Reader {
+    private readonly data: Uint8Array;
+    private offset = 0;
+
+    constructor (data: Uint8Array) {
+        this.data = data;
+    }
+
+    public byte (): number {
+        return this.take(1)[0];
+    }
+
+    public uint32 (): number {
+        const arr = this.take(4);
+        return ((arr[0] << 24) | (arr[1] << 16) | (arr[2] << 8) | arr[3]) >>> 0;
+    }
+
+    public bytes (): Uint8Array {
+        const length = this.take(2);
+        return this.take((length[0] << 8) | length[1]).slice();
+    }
+
+    public string (): string {
+        return new TextDecoder().decode(this.bytes());
+    }
+
+    public done (): boolean {
+        return this.offset === this.data.length;
+    }
+
+    public end (): void {
+        if (this.offset !== this.data.length) {
+            throw new SRPError(ErrorCode.INVALID_MESSAGE, 'Invalid message: unexpected trailing data');
+        }
+    }
+
+    private take (length: number): Uint8Array {
+        if (this.offset + length > this.data.length) {
+            throw new SRPError(ErrorCode.INVALID_MESSAGE, 'Invalid message: unexpected end of data');
+        }
+        const arr = this.data.subarray(this.offset, this.offset + length);
+        this.offset += length;
+        return arr;
+    }
+}
@@ -0,0 +1,241 @@
+/*
+ * BSD 3-Clause License
+ * Copyright (c) 2024, Ollie Killean
+ * License: https://github.com/knokbak/srp-auth
+ */
+
+import { ErrorCode, SRPError } from './error';
+
+/**
+ * How the identity (`I`) and password are normalised before they are hashed, so that the same text typed on different devices always gives the same `x`. Both the client and server must use the same normalisation, so it is stored with the user's credentials.
+ */
+export enum Normalization {
+    /**
+     * The original behaviour of this library. Strings are UTF-8 encoded exactly as they are, so a precomposed "é" and an "e" followed by a combining accent give different results.
+     */
+    None = 'none',
+    /**
+     * Unicode NFKC. Composed and decomposed characters, and compatibility forms such as full-width letters, become the same. No characters are prohibited.
+     */
+    NFKC = 'nfkc',
+    /**
+     * [RFC 4013](https://datatracker.ietf.org/doc/html/rfc4013) SASLprep, for both the identity and the password. Non-ASCII spaces become U+0020, invisible characters such as soft hyphens are removed, the result is NFKC normalised, and control, private use and other prohibited characters are rejected.
+     */
+    SASLprep = 'saslprep',
+    /**
+     * [RFC 8265](https://datatracker.ietf.org/doc/html/rfc8265) PRECIS. The identity uses the UsernameCaseMapped profile: full-width characters become their normal forms, the result is lowercased and NFC normalised, and only letters, digits and printable ASCII are allowed. The password uses the OpaqueString profile: non-ASCII spaces become U+0020, the result is NFC normalised, and control and invisible characters are rejected.
+     */
+    PRECIS = 'precis',
+}
+
+type Field = 'I' | 'password';
+
+const NAMES: Record<Normalization, string> = {
+    [Normalization.None]: 'no normalisation',
+    [Normalization.NFKC]: 'NFKC',
+    [Normalization.SASLprep]: 'SASLprep',
+    [Normalization.PRECIS]: 'PRECIS',
+};
+
+/**
+ * RFC 3454 table C.1.2, which SASLprep maps to U+0020.
+ */
+const NON_ASCII_SPACE = /[\u00A0\u1680\u2000-\u200B\u202F\u205F\u3000]/gu;
+
+/**
+ * RFC 3454 table B.1, which SASLprep removes.
+ */
+const MAPPED_TO_NOTHING = /[\u00AD\u034F\u1806\u180B-\u180D\u200B-\u200D\u2060\uFE00-\uFE0F\uFEFF]/gu;
+
+/**
+ * The characters prohibited by SASLprep: RFC 3454 tables C.2.1 to C.9. C.1.2 is not listed, as those characters have already been mapped to U+0020.
+ */
+const SASLPREP_PROHIBITED: [RegExp, string][] = [
+    [/[\u0000-\u001F\u007F\u0080-\u009F\u06DD\u070F\u180E\u200C-\u200D\u2028-\u2029\u2060-\u2063\uFEFF\uFFF9-\uFFFC\u{1D173}-\u{1D17A}]/u, 'a control character'],
+    [/\p{Co}/u, 'a private use character'],
+    [/\p{Noncharacter_Code_Point}/u, 'a non-character'],
+    [/\p{Cs}/u, 'an unpaired surrogate'],
+    [/[\uFFF9-\uFFFD\u2FF0-\u2FFB]/u, 'a character which is not plain text'],
+    [/[\u0340\u0341\u200E\u200F\u202A-\u202E\u206A-\u206F]/u, 'a character which changes how text is displayed'],
+    [/[\u{E0001}\u{E0020}-\u{E007F}]/u, 'a tagging character'],
+];
+
+/**
+ * The characters disallowed by every PRECIS string class, along with the exceptions from RFC 5892 section 2.6.
+ */
+const PRECIS_DISALLOWED = /[\p{Cc}\p{Cs}\p{Co}\p{Zl}\p{Zp}\p{Cf}\p{Default_Ignorable_Code_Point}\u0640\u07FA\u302E\u302F\u3031-\u3035\u303B\u1100-\u11FF\uA960-\uA97F\uD7B0-\uD7FF]/u;
+
+/**
+ * The characters allowed by the PRECIS IdentifierClass, other than printable ASCII.
+ */
+const IDENTIFIER_CLASS = /[\p{Ll}\p{Lu}\p{Lo}\p{Lm}\p{Nd}\p{Mn}\p{Mc}]/u;
+
+/**
+ * Full-width and half-width characters, which UsernameCaseMapped maps to their normal forms.
+ */
+const WIDE_OR_NARROW = /[\u3000\uFF01-\uFFEE]/gu;
+
+const UNASSIGNED = /\p{Cn}/u;
+
+/**
+ * Describes why a character is disallowed by PRECIS, in order of precedence.
+ */
+const DESCRIPTIONS: [RegExp, string][] = [
+    [/\p{Cc}/u, 'a control character'],
+    [/\p{Cs}/u, 'an unpaired surrogate'],
+    [/\p{Co}/u, 'a private use character'],
+    [/\p{Noncharacter_Code_Point}/u, 'a non-character'],
+    [UNASSIGNED, 'an unassigned code point'],
+    [/[\p{Zl}\p{Zp}]/u, 'a line or paragraph separator'],
+    [/\p{Zs}/u, 'a space'],
+    [/[\p{Cf}\p{Default_Ignorable_Code_Point}]/u, 'an invisible character'],
+    [/[\p{S}\p{P}]/u, 'a symbol or punctuation mark'],
+    [/[\u1100-\u11FF\uA960-\uA97F\uD7B0-\uD7FF]/u, 'a conjoining Hangul jamo'],
+];
+
+const LETTER = /\p{L}/u;
+// Bidi_Class cannot be matched by a regular expression, so letters are classed by their script instead
+const RIGHT_TO_LEFT_SCRIPTS = '\\p{Script=Hebrew}\\p{Script=Arabic}\\p{Script=Syriac}\\p{Script=Thaana}\\p{Script=Nko}\\p{Script=Samaritan}\\p{Script=Mandaic}\\p{Script=Adlam}';
+const RIGHT_TO_LEFT = new RegExp(`[${RIGHT_TO_LEFT_SCRIPTS}]`, 'u');
+const RIGHT_TO_LEFT_START = new RegExp(`^(?=\\p{L})[${RIGHT_TO_LEFT_SCRIPTS}]`, 'u');
+// SASLprep requires a right-to-left letter at the end, whereas RFC 5893 also allows a digit, followed by any combining marks
+const SASLPREP_END = new RegExp(`(?=\\p{L})[${RIGHT_TO_LEFT_SCRIPTS}]$`, 'u');
+const PRECIS_END = new RegExp(`(?:(?=\\p{L})[${RIGHT_TO_LEFT_SCRIPTS}]|\\p{Nd})\\p{Mn}*$`, 'u');
+
+/**
+ * Normalises an identity (`I`), as the client does before hashing it. If your users are looked up by identity, store and look them up by the normalised identity.
+ * @param allowUnassigned Whether code points which are unassigned in the runtime's version of Unicode are allowed. They are rejected when credentials are created, and allowed when authenticating, as described in RFC 3454 section 7.
+ * @throws {SRPError} `PROHIBITED_CHARACTER` if the identity contains a character which `normalization` does not allow.
+ */
+export function normalizeIdentity (I: string, normalization: Normalization, allowUnassigned = false): string {
+    return normalize('I', I, normalization, allowUnassigned);
+}
+
+/**
+ * Normalises a password, as the client does before hashing it.
+ * @param allowUnassigned Whether code points which are unassigned in the runtime's version of Unicode are allowed. They are rejected when credentials are created, and allowed when authenticating, as described in RFC 3454 section 7.
+ * @throws {SRPError} `PROHIBITED_CHARACTER` if the password contains a character which `normalization` does not allow.
+ */
+export function normalizePassword (password: string, normalization: Normalization, allowUnassigned = false): string {
+    return normalize('password', password, normalization, allowUnassigned);
+}
+
+function normalize (field: Field, value: string, normalization: Normalization, allowUnassigned: boolean): string {
+    switch (normalization) {
+        case Normalization.None:
+            return value;
+        case Normalization.NFKC:
+            return value.normalize('NFKC');
+        case Normalization.SASLprep:
+            return saslprep(field, value, allowUnassigned);
+        case Normalization.PRECIS:
+            return field === 'I' ? usernameCaseMapped(value, allowUnassigned) : opaqueString(value, allowUnassigned);
+        default:
+            throw new SRPError(ErrorCode.INVALID_INPUT, `Unknown normalization "${normalization}"`);
+    }
+}
+
+/**
+ * RFC 4013 SASLprep.
+ */
+function saslprep (field: Field, value: string, allowUnassigned: boolean): string {
+    const result = value.replace(NON_ASCII_SPACE, ' ').replace(MAPPED_TO_NOTHING, '').normalize('NFKC');
+
+    for (const c of result) {
+        for (const [pattern, description] of SASLPREP_PROHIBITED) {
+            if (pattern.test(c)) {
+                throw prohibited(field, Normalization.SASLprep, c, description);
+            }
+        }
+        if (!allowUnassigned && UNASSIGNED.test(c)) {
+            throw prohibited(field, Normalization.SASLprep, c, 'an unassigned code point');
+        }
+    }
+
+    // RFC 3454 section 6
+    checkDirection(field, Normalization.SASLprep, result, SASLPREP_END);
+    return result;
+}
+
+/**
+ * The RFC 8265 OpaqueString profile, which is used for passwords.
+ */
+function opaqueString (value: string, allowUnassigned: boolean): string {
+    const result = value.replace(/(?! )\p{Zs}/gu, ' ').normalize('NFC');
+    if (result.length === 0) {
+        throw new SRPError(ErrorCode.INVALID_INPUT, 'The password must not be empty');
+    }
+
+    for (const c of result) {
+        if (PRECIS_DISALLOWED.test(c) || (!allowUnassigned && UNASSIGNED.test(c))) {
+            throw prohibited('password', Normalization.PRECIS, c, describe(c));
+        }
+    }
+    return result;
+}
+
+/**
+ * The RFC 8265 UsernameCaseMapped profile, which is used for identities. The identity may be several parts separated by spaces, each of which is checked separately.
+ */
+function usernameCaseMapped (value: string, allowUnassigned: boolean): string {
+    const mapped = value.replace(WIDE_OR_NARROW, (c) => c.normalize('NFKC'));
+    const parts = mapped.split(/( +)/);
+    if (parts[0] === '' || parts[parts.length - 1] === '') {
+        throw new SRPError(ErrorCode.INVALID_INPUT, 'I must not be empty, or start or end with a space');
+    }
+
+    return parts.map((part) => {
+        if (part.startsWith(' ')) {
+            return part;
+        }
+
+        const result = part.toLowerCase().normalize('NFC');
+        for (const c of result) {
+            const isPrintableASCII = c >= '!' && c <= '~';
+            const isAllowed = isPrintableASCII || (IDENTIFIER_CLASS.test(c) && !PRECIS_DISALLOWED.test(c) && c.normalize('NFKC') === c);
+            if (!isAllowed || (!allowUnassigned && UNASSIGNED.test(c))) {
+                throw prohibited('I', Normalization.PRECIS, c, describe(c));
+            }
+        }
+
+        // RFC 5893
+        checkDirection('I', Normalization.PRECIS, result, PRECIS_END);
+        return result;
+    }).join('');
+}
+
+/**
+ * Rejects text which mixes right-to-left and left-to-right letters, or which contains right-to-left letters but does not start with one. `end` must match the end of right-to-left text.
+ */
+function checkDirection (field: Field, normalization: Normalization, value: string, end: RegExp): void {
+    const chars = [...value];
+    if (!chars.some((c) => LETTER.test(c) && RIGHT_TO_LEFT.test(c))) {
+        return;
+    }
+
+    const subject = field === 'I' ? 'I' : 'The password';
+    if (chars.some((c) => LETTER.test(c) && !RIGHT_TO_LEFT.test(c))) {
+        throw new SRPError(ErrorCode.PROHIBITED_CHARACTER, `${subject} mixes right-to-left and left-to-right text, which is not allowed by ${NAMES[normalization]}`);
+    }
+    if (!RIGHT_TO_LEFT_START.test(value) || !end.test(value)) {
+        throw new SRPError(ErrorCode.PROHIBITED_CHARACTER, `${subject} contains right-to-left text, so it must start and end with a right-to-left character, which is required by ${NAMES[normalization]}`);
+    }
+}
+
+function describe (c: string): string {
+    const description = DESCRIPTIONS.find(([pattern]) => pattern.test(c))?.[1];
+    if (description) {
+        return description;
+    }
+    return c.normalize('NFKC') === c ? 'a character which is not a letter or digit' : 'a compatibility character';
+}
+
+function prohibited (field: Field, normalization: Normalization, c: string, description: string): SRPError {
+    // the password's characters are never included, as error messages are often logged
+    if (field === 'password') {
+        return new SRPError(ErrorCode.PROHIBITED_CHARACTER, `The password contains ${description}, which is not allowed by ${NAMES[normalization]}`);
+    }
+
+    const codePoint = `U+${(c.codePointAt(0) ?? 0).toString(16).toUpperCase().padStart(4, '0')}`;
+    return new SRPError(ErrorCode.PROHIBITED_CHARACTER, `I contains ${description} (${codePoint}), which is not allowed by ${NAMES[normalization]}`);
+}
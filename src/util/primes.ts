@@ -0,0 +1,131 @@
+/*
+ * BSD 3-Clause License
+ * Copyright (c) 2024, Ollie Killean
+ * License: https://github.com/knokbak/srp-auth
+ */
+
+import { ErrorCode, SRPError } from './error';
+import { powMod, toBigInt } from './math';
+import { random } from './random';
+
+/**
+ * The odd primes below 2000, used to quickly rule out most candidates before running Miller–Rabin.
+ */
+const SMALL_PRIMES: bigint[] = (() => {
+    const primes: bigint[] = [];
+    for (let n = 3; n < 2000; n += 2) {
+        if (primes.every((p) => n % Number(p) !== 0)) {
+            primes.push(BigInt(n));
+        }
+    }
+    return primes;
+})();
+
+/**
+ * Returns `false` if `n` is divisible by a small prime (other than itself).
+ */
+function passesTrialDivision (n: bigint): boolean {
+    for (const p of SMALL_PRIMES) {
+        if (n === p) {
+            return true;
+        }
+        if (n % p === 0n) {
+            return false;
+        }
+    }
+    return true;
+}
+
+/**
+ * Returns a random bigint `r` such that `min <= r <= max`.
+ */
+function randomBetween (min: bigint, max: bigint): bigint {
+    const range = max - min + 1n;
+    const bits = range.toString(2).length;
+    // 64 extra bits make the bias from the modulo negligible
+    return min + toBigInt(random(bits + 64)) % range;
+}
+
+/**
+ * Tests whether `n` is prime using trial division followed by `rounds` rounds of Miller–Rabin with random bases. A composite number passes with a probability of at most `4 ^ -rounds`.
+ */
+export function isProbablePrime (n: bigint, rounds = 24): boolean {
+    if (n < 2n) {
+        return false;
+    }
+    if (n < 4n) {
+        return true;
+    }
+    if (n % 2n === 0n || !passesTrialDivision(n)) {
+        return false;
+    }
+
+    // n - 1 = d * 2 ^ r, where d is odd
+    let d = n - 1n;
+    let r = 0;
+    while (d % 2n === 0n) {
+        d >>= 1n;
+        r++;
+    }
+
+    witness: for (let i = 0; i < rounds; i++) {
+        // the first round always uses 2, which rules out most composites cheaply
+        const a = i === 0 ? 2n : randomBetween(2n, n - 2n);
+        let x = powMod(a, d, n);
+        if (x === 1n || x === n - 1n) {
+            continue;
+        }
+
+        for (let j = 1; j < r; j++) {
+            x = x * x % n;
+            if (x === n - 1n) {
+                continue witness;
+            }
+        }
+        return false;
+    }
+
+    return true;
+}
+
+/**
+ * Tests whether `p` is a safe prime, i.e. both `p` and `(p - 1) / 2` are prime.
+ */
+export function isSafePrime (p: bigint, rounds = 24): boolean {
+    if (p < 5n || p % 2n === 0n) {
+        return false;
+    }
+
+    // cheap checks on both numbers first, as the full tests are expensive
+    const q = (p - 1n) / 2n;
+    return passesTrialDivision(q) && passesTrialDivision(p)
+        && isProbablePrime(q, 1) && isProbablePrime(p, 1)
+        && isProbablePrime(q, rounds) && isProbablePrime(p, rounds);
+}
+
+/**
+ * Generates a random safe prime of exactly `bits` bits. The event loop is yielded to between candidates.
+ * > ⚠️ **Warning**: This is very slow for large sizes. Generating a 2048-bit safe prime can take a long time, so prefer one of the built-in groups where possible.
+ */
+export async function generateSafePrime (bits: number, rounds = 24): Promise<bigint> {
+    if (!Number.isInteger(bits) || bits < 16) {
+        throw new SRPError(ErrorCode.INVALID_INPUT, 'Safe primes must be at least 16 bits');
+    }
+
+    for (let attempt = 1; ; attempt++) {
+        // q has its top two bits set, so that p = 2q + 1 has exactly `bits` bits
+        // q must be 5 mod 6, otherwise q or p would be divisible by 3
+        let q = toBigInt(random(bits - 1)) & ((1n << BigInt(bits - 1)) - 1n);
+        q |= 3n << BigInt(bits - 3);
+        q += (5n - q % 6n + 6n) % 6n;
+
+        const p = 2n * q + 1n;
+        if (p.toString(2).length === bits && isSafePrime(p, rounds)) {
+            return p;
+        }
+
+        if (attempt % 64 === 0) {
+            await new Promise((resolve) => setTimeout(resolve, 0));
+        }
+    }
+}
@@ -0,0 +1,111 @@
+/*
+ * BSD 3-Clause License
+ * Copyright (c) 2024, Ollie Killean
+ * License: https://github.com/knokbak/srp-auth
+ */
+
+import { ErrorCode, SRPError } from './error';
+import { Group } from './groups';
+import { Algorithm, hash, HashProvider } from './hash';
+import { derive, KDFParams } from './kdf';
+import { toBigInt, toUint8Array } from './math';
+
+/**
+ * The protocol profile decides how values are encoded before they are hashed. Both the client and server must use the same profile.
+ */
+export enum Profile {
+    /**
+     * The original behaviour of this library. Values are hashed without padding and `M1` uses the raw identity (`I`).
+     */
+    Legacy = 'legacy',
+    /**
+     * Strict [RFC 5054](https://datatracker.ietf.org/doc/html/rfc5054) SRP-6a. `g`, `A` and `B` are left-padded to the length of `N` (`PAD()`) when computing `k`, `u` and `M1`, and `M1` uses `H(I)`. This is compatible with other SRP-6a implementations which follow RFC 5054.
+     */
+    RFC5054 = 'rfc5054',
+}
+
+/**
+ * Left-pads `value` with zeros to the byte length of `N`, as described by `PAD()` in RFC 5054.
+ */
+export function pad (value: bigint | Uint8Array, N: bigint): Uint8Array {
+    const arr = typeof value === 'bigint' ? toUint8Array(value) : value;
+    const length = toUint8Array(N).length;
+    if (arr.length > length) {
+        throw new SRPError(ErrorCode.INVALID_INPUT, 'Value is larger than N and cannot be padded');
+    }
+
+    const padded = new Uint8Array(length);
+    padded.set(arr, length - arr.length);
+    return padded;
+}
+
+/**
+ * `k = H(N | PAD(g))`, or `H(N | g)` for the legacy profile.
+ */
+export async function computeK (profile: Profile, algorithm: Algorithm, group: Group, provider?: HashProvider): Promise<bigint> {
+    const g = profile === Profile.RFC5054 ? pad(group.g, group.N) : toUint8Array(group.g);
+    const k = await hash(algorithm, [ toUint8Array(group.N), g ], provider);
+    return toBigInt(k);
+}
+
+/**
+ * `u = H(PAD(A) | PAD(B))`, or `H(A | B)` for the legacy profile.
+ */
+export async function computeU (profile: Profile, algorithm: Algorithm, group: Group, A: bigint, B: bigint, provider?: HashProvider): Promise<bigint> {
+    const u = profile === Profile.RFC5054
+        ? await hash(algorithm, [ pad(A, group.N), pad(B, group.N) ], provider)
+        : await hash(algorithm, [ toUint8Array(A), toUint8Array(B) ], provider);
+    return toBigInt(u);
+}
+
+/**
+ * `x = H(s | KDF(H(I | ":" | p), s))`. This is the same for every profile. When no KDF is used, this is `H(s | H(I | ":" | p))`.
+ */
+export async function computeX (profile: Profile, algorithm: Algorithm, I: Uint8Array, p: Uint8Array, s: Uint8Array, kdf: KDFParams, provider?: HashProvider): Promise<bigint> {
+    const identity = await derive(kdf, algorithm, await hash(algorithm, [ I, ':', p ], provider), s);
+    const x = await hash(algorithm, [ s, identity ], provider);
+    return toBigInt(x);
+}
+
+/**
+ * `K = H(S)`. This is the same for every profile.
+ */
+export async function computeSessionKey (profile: Profile, algorithm: Algorithm, S: bigint, provider?: HashProvider): Promise<Uint8Array> {
+    return hash(algorithm, [ toUint8Array(S) ], provider);
+}
+
+/**
+ * `T = H(H(context) | H(channelBinding))`, which is appended to `M1` and `M2` when either value is provided, so that the proofs are only valid for that application and channel. A missing value is hashed as an empty string. This is the same for every profile.
+ */
+export async function computeBinding (algorithm: Algorithm, context?: string, channelBinding?: Uint8Array, provider?: HashProvider): Promise<Uint8Array | undefined> {
+    if (context === undefined && channelBinding === undefined) {
+        return undefined;
+    }
+
+    const [Hc, Hb] = await Promise.all([hash(algorithm, [ context ?? '' ], provider), hash(algorithm, [ channelBinding ?? new Uint8Array(0) ], provider)]);
+    return hash(algorithm, [ Hc, Hb ], provider);
+}
+
+/**
+ * `M1 = H(H(N) XOR H(PAD(g)) | H(I) | s | A | B | K)`, or `H(H(N) XOR H(g) | I | s | A | B | K)` for the legacy profile. If a binding (`T`) is provided, it is appended.
+ */
+export async function computeM1 (profile: Profile, algorithm: Algorithm, group: Group, I: Uint8Array, s: Uint8Array, A: bigint, B: bigint, K: Uint8Array, T?: Uint8Array, provider?: HashProvider): Promise<Uint8Array> {
+    const N = toUint8Array(group.N);
+    const g = profile === Profile.RFC5054 ? pad(group.g, group.N) : toUint8Array(group.g);
+
+    const [HN, Hg] = await Promise.all([hash(algorithm, [ N ], provider), hash(algorithm, [ g ], provider)]);
+    const HX = new Uint8Array(HN.length);
+    for (let i = 0; i < HN.length; i++) {
+        HX[i] = HN[i] ^ Hg[i];
+    }
+
+    const identity = profile === Profile.RFC5054 ? await hash(algorithm, [ I ], provider) : I;
+    return hash(algorithm, [ HX, identity, s, toUint8Array(A), toUint8Array(B), K, ...(T ? [ T ] : []) ], provider);
+}
+
+/**
+ * `M2 = H(A | M1 | K)`. This is the same for every profile. If a binding (`T`) is provided, it is appended.
+ */
+export async function computeM2 (profile: Profile, algorithm: Algorithm, A: bigint, M1: Uint8Array, K: Uint8Array, T?: Uint8Array, provider?: HashProvider): Promise<Uint8Array> {
+    return hash(algorithm, [ toUint8Array(A), M1, K, ...(T ? [ T ] : []) ], provider);
+}
@@ -4,6 +4,15 @@
  * License: https://github.com/knokbak/srp-auth
  */
 
+/**
+ * Returns `Math.ceil(bits / 8)` random bytes. The default is `random(...)`, which uses the runtime's CSPRNG.
+ * > ⚠️ **Warning**: Only replace the default in tests. SRP is only secure if the salt and ephemeral secrets (`a` and `b`) are unpredictable.
+ */
+export type RandomSource = (bits: number) => Uint8Array;
+
+/**
+ * Returns `Math.ceil(bits / 8)` cryptographically secure random bytes.
+ */
 export function random (bits: number): Uint8Array {
     const arr = new Uint8Array(Math.ceil(bits / 8));
     if (typeof window === 'undefined' || !window.crypto || !window.crypto.getRandomValues) {
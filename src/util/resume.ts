@@ -0,0 +1,53 @@
+/*
+ * BSD 3-Clause License
+ * Copyright (c) 2024, Ollie Killean
+ * License: https://github.com/knokbak/srp-auth
+ */
+
+import { hkdf, hmac } from './cipher';
+
+/**
+ * The length of each resumption nonce, in bytes.
+ * @internal
+ */
+export const RESUME_NONCE_LENGTH = 32;
+
+/**
+ * `RS = HKDF(K, "srp-auth resumption secret")`, which is derived by both parties once the handshake has been verified.
+ * @internal
+ */
+export async function deriveResumptionSecret (K: Uint8Array): Promise<Uint8Array> {
+    return hkdf(K, new Uint8Array(0), 'srp-auth resumption secret', 32);
+}
+
+/**
+ * The client's proof is `HMAC(HKDF(RS, "client proof"), Nc | I)`. The server's proof is `HMAC(HKDF(RS, "server proof"), Nc | Ns | I)`, which also covers the server's nonce.
+ * @internal
+ */
+export async function computeResumeProof (RS: Uint8Array, role: 'client' | 'server', I: Uint8Array, nonces: Uint8Array[]): Promise<Uint8Array> {
+    const key = await hkdf(RS, new Uint8Array(0), `srp-auth resume ${role} proof`, 32);
+    return hmac(key, concat([ ...nonces, I ]));
+}
+
+/**
+ * Derives the new session key, `K' = HKDF(RS, Nc | Ns, "key")`, and the next resumption secret, `RS' = HKDF(RS, Nc | Ns, "next secret")`. `RS` cannot be recovered from either, so once it is discarded, earlier sessions stay secret even if `RS'` is compromised.
+ * @internal
+ */
+export async function deriveResumeKeys (RS: Uint8Array, Nc: Uint8Array, Ns: Uint8Array): Promise<{ K: Uint8Array; next: Uint8Array }> {
+    const salt = concat([ Nc, Ns ]);
+    const [K, next] = await Promise.all([
+        hkdf(RS, salt, 'srp-auth resume key', 32),
+        hkdf(RS, salt, 'srp-auth resume next secret', 32),
+    ]);
+    return { K, next };
+}
+
+function concat (parts: Uint8Array[]): Uint8Array {
+    const arr = new Uint8Array(parts.reduce((acc, part) => acc + part.length, 0));
+    let offset = 0;
+    for (const part of parts) {
+        arr.set(part, offset);
+        offset += part.length;
+    }
+    return arr;
+}
@@ -0,0 +1,100 @@
+/*
+ * BSD 3-Clause License
+ * Copyright (c) 2024, Ollie Killean
+ * License: https://github.com/knokbak/srp-auth
+ */
+
+import type { CredentialRecord } from '../server/record';
+import { Group } from './groups';
+import { Algorithm } from './hash';
+import { KDFParams, KDFPresets } from './kdf';
+import { toHex } from './math';
+import { Normalization, normalizeIdentity } from './normalize';
+import { Profile } from './profile';
+
+export type UpgradePolicy = {
+    /**
+     * The SRP group that every user should have.
+     */
+    group: Group;
+    /**
+     * The hashing algorithm that every user should have.
+     */
+    algorithm: Algorithm;
+    /**
+     * The protocol profile that every user should have. Defaults to `Profile.Legacy`.
+     */
+    profile?: Profile;
+    /**
+     * The key derivation function that every user should have. Defaults to `KDFPresets.none`.
+     */
+    kdf?: KDFParams;
+    /**
+     * The normalisation that every user should have. Defaults to `Normalization.None`. Users whose identity (`I`) would be changed by it keep their current normalisation, as they could no longer be found under their new identity.
+     */
+    normalization?: Normalization;
+}
+
+/**
+ * The parameters that the server wants the client to upgrade to. This is sent to the client along with `B`, and passed to `ClientAuthenticate.upgrade(...)`.
+ */
+export type UpgradeTarget = {
+    /**
+     * The new group's generator (`g`) encoded as hex.
+     */
+    g: string;
+    /**
+     * The new group's prime modulus (`N`) encoded as hex.
+     */
+    N: string;
+    algorithm: Algorithm;
+    profile: Profile;
+    kdf: KDFParams;
+    normalization: Normalization;
+}
+
+/**
+ * Returns the parameters that the credentials of `I` should be upgraded to, or `undefined` if they already match `policy`.
+ * @internal
+ */
+export function getUpgradeTarget (I: string, record: Omit<CredentialRecord, 's' | 'v'>, policy: UpgradePolicy): UpgradeTarget | undefined {
+    // a normalisation which would change I is skipped, as the user could no longer be found under their new identity
+    const normalization = policy.normalization ?? Normalization.None;
+    const target: UpgradeTarget = {
+        g: toHex(policy.group.g),
+        N: toHex(policy.group.N),
+        algorithm: policy.algorithm,
+        profile: policy.profile ?? Profile.Legacy,
+        kdf: policy.kdf ?? KDFPresets.none,
+        normalization: keepsIdentity(I, normalization) ? normalization : record.normalization ?? Normalization.None,
+    };
+    return matchesTarget(record, target) ? undefined : target;
+}
+
+/**
+ * Checks whether `record` uses exactly the parameters in `target`.
+ * @internal
+ */
+export function matchesTarget (record: Omit<CredentialRecord, 's' | 'v'>, target: UpgradeTarget): boolean {
+    return toHex(record.group.g) === target.g
+        && toHex(record.group.N) === target.N
+        && record.algorithm === target.algorithm
+        && record.profile === target.profile
+        && isSameKDF(record.kdf, target.kdf)
+        && (record.normalization ?? Normalization.None) === target.normalization;
+}
+
+function keepsIdentity (I: string, normalization: Normalization): boolean {
+    try {
+        return normalizeIdentity(I, normalization) === I;
+    } catch {
+        return false;
+    }
+}
+
+function isSameKDF (a: KDFParams, b: KDFParams): boolean {
+    const first = a as Record<string, unknown>;
+    const second = b as Record<string, unknown>;
+    const keys = new Set([...Object.keys(first), ...Object.keys(second)]);
+    return [...keys].every((key) => first[key] === second[key]);
+}
@@ -0,0 +1,36 @@
+/*
+ * BSD 3-Clause License
+ * Copyright (c) 2024, Ollie Killean
+ * License: https://github.com/knokbak/srp-auth
+ */
+
+// The entry point for each worker started by `WorkerPool`. It runs in both `worker_threads` and Web Workers.
+
+import type { WorkerRequest, WorkerResponse } from './backend';
+import { ErrorCode, SRPError } from './error';
+import { powMod, powModFixed } from './math';
+
+function handle (request: WorkerRequest): WorkerResponse {
+    try {
+        const result = request.op === 'powModFixed'
+            ? powModFixed(request.base, request.exp, request.N)
+            : powMod(request.base, request.exp, request.N);
+        return { id: request.id, result };
+    } catch (err) {
+        return {
+            id: request.id,
+            error: {
+                code: err instanceof SRPError ? err.code : ErrorCode.INVALID_INPUT,
+                message: err instanceof Error ? err.message : String(err),
+            },
+        };
+    }
+}
+
+if (typeof process !== 'undefined' && process.versions?.node) {
+    const { parentPort } = require('worker_threads');
+    parentPort?.on('message', (request: WorkerRequest) => parentPort.postMessage(handle(request)));
+} else {
+    const scope = globalThis as unknown as { onmessage: (event: MessageEvent<WorkerRequest>) => void; postMessage: (response: WorkerResponse) => void };
+    scope.onmessage = (event) => scope.postMessage(handle(event.data));
+}
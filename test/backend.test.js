@@ -0,0 +1,67 @@
+/*
+ * BSD 3-Clause License
+ * Copyright (c) 2024, Ollie Killean
+ * License: https://github.com/knokbak/srp-auth
+ */
+
+const assert = require('assert');
+const { describe, test } = require('node:test');
+const { Algorithm, ClientSetup, Groups, InlineBackend, WorkerPool } = require('../dist');
+
+const { g, N } = Groups.b2048;
+const exp = 0x1234567890abcdef1234567890abcdef1234567890abcdefn;
+
+describe('WorkerPool', () => {
+    test('results match the inline backend', async () => {
+        const pool = new WorkerPool({ size: 2 });
+        const inline = new InlineBackend();
+        try {
+            assert.strictEqual(await pool.powMod(5n, exp, N), await inline.powMod(5n, exp, N));
+            assert.strictEqual(await pool.powModFixed(g, exp, N), await inline.powModFixed(g, exp, N));
+
+            const config = { username: 'alice', password: 'password123', salt: new Uint8Array(24).fill(1), group: Groups.b1024, algorithm: Algorithm.SHA_256 };
+            const [withPool, withoutPool] = await Promise.all([
+                new ClientSetup({ ...config, backend: pool }).init(),
+                new ClientSetup(config).init(),
+            ]);
+            assert.strictEqual(withPool.encoded.v, withoutPool.encoded.v);
+        } finally {
+            pool.close();
+        }
+    });
+
+    test('tasks beyond maxQueue are rejected with BUSY', async () => {
+        const pool = new WorkerPool({ size: 1, maxQueue: 1 });
+        try {
+            const results = await Promise.allSettled([pool.powMod(5n, exp, N), pool.powMod(6n, exp, N), pool.powMod(7n, exp, N)]);
+            assert.deepStrictEqual(results.map((result) => result.status), ['fulfilled', 'fulfilled', 'rejected']);
+            assert.strictEqual(results[2].reason.code, 'BUSY');
+        } finally {
+            pool.close();
+        }
+    });
+
+    test('close() rejects pending and new tasks', async () => {
+        const pool = new WorkerPool({ size: 1 });
+        const pending = [pool.powMod(5n, exp, N), pool.powMod(6n, exp, N)];
+        pool.close();
+
+        for (const result of await Promise.allSettled(pending)) {
+            assert.strictEqual(result.status, 'rejected');
+            assert.strictEqual(result.reason.code, 'ABORTED');
+        }
+        await assert.rejects(pool.powMod(5n, exp, N), { code: 'ABORTED' });
+    });
+
+    test('falls back to the calling thread when workers cannot start', async () => {
+        const pool = new WorkerPool({ size: 1, url: '/nonexistent/srp-auth-worker.js' });
+        try {
+            const expected = await new InlineBackend().powMod(5n, exp, N);
+            const results = await Promise.all([pool.powMod(5n, exp, N), pool.powMod(5n, exp, N)]);
+            assert.deepStrictEqual(results, [expected, expected]);
+            assert.strictEqual(await pool.powMod(5n, exp, N), expected);
+        } finally {
+            pool.close();
+        }
+    });
+});
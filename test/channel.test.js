@@ -0,0 +1,64 @@
+/*
+ * BSD 3-Clause License
+ * Copyright (c) 2024, Ollie Killean
+ * License: https://github.com/knokbak/srp-auth
+ */
+
+const assert = require('assert');
+const { describe, test } = require('node:test');
+const { Algorithm, ClientAuthenticate, ClientSetup, Groups, ServerAuthenticate } = require('../dist');
+
+const username = 'alice';
+const password = 'password123';
+const group = Groups.b1024;
+const algorithm = Algorithm.SHA_256;
+
+/**
+ * Runs a full handshake, and returns a channel for each side.
+ */
+async function channels () {
+    const { raw } = await new ClientSetup({ username, password, group, algorithm }).init();
+    const client = new ClientAuthenticate({ username, password, group, algorithm });
+    const server = new ServerAuthenticate({ I: username, s: raw.s, v: raw.v, group, algorithm });
+
+    const { encoded: { A } } = await client.init();
+    const { encoded: { B, s } } = await server.init(A);
+    await client.exchange(B, s);
+    const { encoded: { M1 } } = await client.authenticate();
+    const { encoded: { M2 } } = await server.authenticate(M1);
+    await client.verifyServer(M2);
+
+    return { client: await client.createChannel(), server: await server.createChannel() };
+}
+
+describe('SecureChannel', () => {
+    test('messages are opened in order', async () => {
+        const { client, server } = await channels();
+        const first = await client.seal('one');
+        const second = await client.seal('two');
+
+        await assert.rejects(server.open(second), { code: 'INVALID_SEQUENCE' });
+        assert.strictEqual(new TextDecoder().decode(await server.open(first)), 'one');
+        assert.strictEqual(new TextDecoder().decode(await server.open(second)), 'two');
+        await assert.rejects(server.open(second), { code: 'INVALID_SEQUENCE' });
+    });
+
+    test('a message opened twice at once is only accepted once', async () => {
+        const { client, server } = await channels();
+        const message = await client.seal('hello');
+
+        const results = await Promise.allSettled([server.open(message), server.open(message)]);
+        assert.deepStrictEqual(results.map((result) => result.status), ['fulfilled', 'rejected']);
+        assert.strictEqual(results[1].reason.code, 'INVALID_SEQUENCE');
+    });
+
+    test('the channel cannot be used after a message fails to decrypt', async () => {
+        const { client, server } = await channels();
+        const message = await client.seal('hello');
+        const tampered = message.slice();
+        tampered[tampered.length - 1] ^= 1;
+
+        await assert.rejects(server.open(tampered), { code: 'DECRYPTION_FAILED' });
+        await assert.rejects(server.open(message), { code: 'DECRYPTION_FAILED' });
+    });
+});
@@ -0,0 +1,127 @@
+/*
+ * BSD 3-Clause License
+ * Copyright (c) 2024, Ollie Killean
+ * License: https://github.com/knokbak/srp-auth
+ */
+
+const assert = require('assert');
+const { createCipheriv, hkdfSync, randomBytes } = require('crypto');
+const { describe, test } = require('node:test');
+const { acceptPasswordReset, Algorithm, ClientAuthenticate, ClientSetup, createPasswordReset, Groups, KDF, MemoryReplayCache, MemoryVerifierStore, ServerAuthenticate, SRPPolicyError } = require('../dist');
+
+const username = 'alice';
+const password = 'password123';
+const group = Groups.b1024;
+const algorithm = Algorithm.SHA_256;
+
+function sealConfig () {
+    return { key: randomBytes(32), replayCache: new MemoryReplayCache() };
+}
+
+/**
+ * Runs a handshake up to the server verifying M1.
+ */
+async function login (options = {}) {
+    const { raw } = await new ClientSetup({ username, password, group, algorithm }).init();
+    const client = new ClientAuthenticate({ username, password, group, algorithm });
+    const server = new ServerAuthenticate({ I: username, s: raw.s, v: raw.v, group, algorithm, ...options });
+
+    const { encoded: { A } } = await client.init();
+    const challenge = await server.init(A);
+    await client.exchange(challenge.encoded.B, challenge.encoded.s);
+    const { encoded: { M1 } } = await client.authenticate();
+    await server.authenticate(M1);
+    return { client, server, challenge };
+}
+
+async function violations (promise) {
+    try {
+        await promise;
+    } catch (err) {
+        assert.ok(err instanceof SRPPolicyError);
+        return err.violations.map((violation) => [violation.field, violation.code]);
+    }
+    return [];
+}
+
+/**
+ * Encrypts an arbitrary payload the same way as the client's `changePassword(...)`.
+ */
+function encryptPayload (K, payload) {
+    const key = Buffer.from(hkdfSync('sha256', K, Buffer.alloc(0), 'srp-auth password change', 32));
+    const iv = randomBytes(12);
+    const cipher = createCipheriv('aes-256-gcm', key, iv);
+    cipher.setAAD(Buffer.from(username));
+    const ciphertext = Buffer.concat([cipher.update(JSON.stringify(payload)), cipher.final(), cipher.getAuthTag()]);
+    return new Uint8Array(Buffer.concat([iv, ciphertext]));
+}
+
+describe('changing credentials', () => {
+    test('a new password is accepted after M1 has been verified', async () => {
+        const { client, server } = await login();
+        const { encoded: { payload } } = await client.changePassword({ password: 'correct horse battery staple' });
+        const record = await server.changePassword(payload);
+        assert.strictEqual(record.algorithm, algorithm);
+    });
+
+    test('malformed payloads are rejected with an SRPError', async () => {
+        const { server } = await login();
+        // the CLI and tests may read each side's private state
+        const payload = encryptPayload(server.K, { s: 1234, v: 'ab', g: '02', N: 'ff', algorithm, profile: 'legacy', kdf: { kdf: 'none' } });
+        await assert.rejects(server.changePassword(payload), { code: 'INVALID_INPUT', message: /s must be a hex string/ });
+    });
+
+    test('password resets reject unknown profiles', async () => {
+        const config = sealConfig();
+        const { encoded } = await new ClientSetup({ username, password, group, algorithm }).init();
+        const input = { I: username, s: encoded.s, v: encoded.v, group, algorithm };
+
+        await assert.rejects(acceptPasswordReset(await createPasswordReset(username, config), { ...input, profile: 'srp7' }, config), { code: 'INVALID_INPUT' });
+        const record = await acceptPasswordReset(await createPasswordReset(username, config), input, config);
+        assert.strictEqual(record.profile, 'legacy');
+    });
+
+    test('password changes must meet the policy', async () => {
+        const policy = { algorithms: [algorithm], deniedPasswords: ['letmein'] };
+        const { client, server } = await login({ policy });
+
+        const weak = await client.changePassword({ password: 'letmein' });
+        assert.deepStrictEqual(await violations(server.changePassword(weak.encoded.payload)), [['v', 'WEAK_PASSWORD']]);
+        const downgraded = await client.changePassword({ password: 'correct horse battery staple', algorithm: Algorithm.SHA_1 });
+        assert.deepStrictEqual(await violations(server.changePassword(downgraded.encoded.payload)), [['algorithm', 'INVALID_ALGORITHM']]);
+    });
+
+    test('upgraded credentials must meet the policy', async () => {
+        const store = new MemoryVerifierStore();
+        const upgrade = { group, algorithm, kdf: { kdf: KDF.PBKDF2, iterations: 1000 } };
+        const { client, server, challenge } = await login({ upgrade, policy: { deniedPasswords: [password] } });
+        assert.ok(challenge.upgrade);
+
+        const { encoded } = await client.upgrade(challenge.upgrade);
+        assert.deepStrictEqual(await violations(server.upgrade(encoded.payload, store)), [['v', 'WEAK_PASSWORD']]);
+    });
+
+    test('password resets must meet the policy', async () => {
+        const config = sealConfig();
+        const { encoded } = await new ClientSetup({ username, password, group, algorithm }).init();
+        const input = { I: username, s: encoded.s, v: encoded.v, group, algorithm };
+
+        const token = await createPasswordReset(username, config);
+        assert.deepStrictEqual(await violations(acceptPasswordReset(token, input, config, { minGroupBits: 2048, deniedPasswords: [password] })), [['group', 'INVALID_GROUP'], ['v', 'WEAK_PASSWORD']]);
+    });
+
+    test('a rejected password reset does not use up the token', async () => {
+        const config = sealConfig();
+        const policy = { deniedPasswords: [password] };
+        const token = await createPasswordReset(username, config);
+
+        const weak = await new ClientSetup({ username, password, group, algorithm }).init();
+        assert.deepStrictEqual(await violations(acceptPasswordReset(token, { I: username, s: weak.encoded.s, v: weak.encoded.v, group, algorithm }, config, policy)), [['v', 'WEAK_PASSWORD']]);
+
+        const strong = await new ClientSetup({ username, password: 'correct horse battery staple', group, algorithm }).init();
+        const input = { I: username, s: strong.encoded.s, v: strong.encoded.v, group, algorithm };
+        const record = await acceptPasswordReset(token, input, config, policy);
+        assert.deepStrictEqual(record.v, strong.raw.v);
+        await assert.rejects(acceptPasswordReset(token, input, config, policy), { code: 'REPLAYED' });
+    });
+});
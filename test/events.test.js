@@ -0,0 +1,114 @@
+/*
+ * BSD 3-Clause License
+ * Copyright (c) 2024, Ollie Killean
+ * License: https://github.com/knokbak/srp-auth
+ */
+
+const assert = require('assert');
+const { describe, test } = require('node:test');
+const { Algorithm, ClientAuthenticate, ClientSetup, createLogObserver, createSpanObserver, Groups, ServerAuthenticate } = require('../dist');
+
+const username = 'alice';
+const password = 'password123';
+const group = Groups.b1024;
+const algorithm = Algorithm.SHA_256;
+
+const toHex = (value) => typeof value === 'bigint' ? value.toString(16) : Buffer.from(value).toString('hex');
+
+async function handshake (clientPassword, observer) {
+    const { encoded } = await new ClientSetup({ username, password, group, algorithm }).init();
+    const client = new ClientAuthenticate({ username, password: clientPassword, group, algorithm, observer });
+    const server = new ServerAuthenticate({ I: username, s: encoded.s, v: encoded.v, group, algorithm, observer });
+
+    const init = await client.init();
+    const challenge = await server.init(init.encoded.A);
+    await client.exchange(challenge.encoded.B, challenge.encoded.s);
+    const proof = await client.authenticate();
+    const verify = await server.authenticate(proof.encoded.M1);
+    await client.verifyServer(verify.encoded.M2);
+    return { client, server };
+}
+
+describe('observers', () => {
+    test('each handshake emits its lifecycle events, without any secrets', async () => {
+        const events = [];
+        const { client, server } = await handshake(password, (event) => events.push(event));
+
+        const summary = (source) => events.filter((event) => event.source === source).map((event) => event.step ?? event.type);
+        assert.deepStrictEqual(summary('ClientAuthenticate'), ['started', 'A', 'u', 'k', 'x', 'S', 'K', 'M1', 'M2', 'proof-verified']);
+        assert.deepStrictEqual(summary('ServerAuthenticate'), ['started', 'k', 'B', 'u', 'S', 'K', 'M1', 'proof-verified', 'M2']);
+
+        for (const event of events) {
+            assert.strictEqual(event.I, username);
+            assert.strictEqual(event.bits, 1024);
+            assert.strictEqual(event.algorithm, algorithm);
+            if (event.type === 'step') {
+                assert.ok(event.duration >= 0);
+            }
+        }
+
+        const serialized = JSON.stringify(events);
+        for (const secret of [password, client.a, client.S, client.K, server.b, server.S, server.K]) {
+            assert.ok(!serialized.includes(typeof secret === 'string' ? secret : toHex(secret)));
+        }
+    });
+
+    test('a wrong password is reported as proof-rejected', async () => {
+        const events = [];
+        await assert.rejects(handshake('wrong password', (event) => events.push(event)), { code: 'BAD_CLIENT_PROOF' });
+
+        const rejected = events.filter((event) => event.type === 'proof-rejected');
+        assert.strictEqual(rejected.length, 1);
+        assert.strictEqual(rejected[0].source, 'ServerAuthenticate');
+        assert.strictEqual(rejected[0].code, 'BAD_CLIENT_PROOF');
+    });
+
+    test('an invalid public key is reported as a security violation, and misuse as an abort', async () => {
+        const events = [];
+        const { encoded } = await new ClientSetup({ username, password, group, algorithm }).init();
+        const server = new ServerAuthenticate({ I: username, s: encoded.s, v: encoded.v, group, algorithm, observer: (event) => events.push(event) });
+
+        await assert.rejects(server.authenticate('00'), { code: 'OUT_OF_ORDER' });
+        await assert.rejects(server.init(toHex(group.N)), { code: 'INVALID_PUBLIC_KEY' });
+
+        assert.deepStrictEqual(events.map((event) => [event.type, event.code]), [['aborted', 'OUT_OF_ORDER'], ['started', undefined], ['security-violation', 'INVALID_PUBLIC_KEY']]);
+    });
+
+    test('errors thrown by the observer are ignored', async () => {
+        await handshake(password, () => {
+            throw new Error('observer failure');
+        });
+    });
+
+    test('createLogObserver writes one logfmt line per event', async () => {
+        const lines = [];
+        await new ClientSetup({ username: 'alice smith', password, group, algorithm, observer: createLogObserver((line) => lines.push(line)) }).init();
+
+        assert.strictEqual(lines.length, 4);
+        assert.match(lines[0], /^srp type=started source=ClientSetup id=[0-9a-f]+ I="alice smith" bits=1024 algorithm=SHA-256 profile=legacy time=\d+$/);
+        assert.match(lines[2], / step=v duration=\d+\.\d$/);
+    });
+
+    test('createSpanObserver records a span per event', async () => {
+        const spans = [];
+        const tracer = {
+            startSpan: (name, options) => {
+                const span = { name, ...options };
+                spans.push(span);
+                return {
+                    setStatus: (status) => span.status = status,
+                    end: (endTime) => span.endTime = endTime,
+                };
+            },
+        };
+        await assert.rejects(handshake('wrong password', createSpanObserver(tracer)));
+
+        const S = spans.find((span) => span.name === 'srp.S');
+        assert.strictEqual(S.attributes['srp.step'], 'S');
+        assert.ok(S.endTime >= S.startTime);
+
+        const rejected = spans.find((span) => span.name === 'srp.proof-rejected');
+        assert.deepStrictEqual(rejected.status, { code: 2, message: 'BAD_CLIENT_PROOF' });
+        assert.ok(spans.every((span) => span.endTime !== undefined));
+    });
+});
@@ -0,0 +1,178 @@
+/*
+ * BSD 3-Clause License
+ * Copyright (c) 2024, Ollie Killean
+ * License: https://github.com/knokbak/srp-auth
+ */
+
+// Known-answer tests, which replay fixed salts and ephemeral secrets through a full handshake and check every intermediate value.
+// The vectors are from RFC 5054, Appendix B (https://datatracker.ietf.org/doc/html/rfc5054#appendix-B). RFC 5054 does not publish K, M1 or M2,
+// so these are computed here from the published S, independently of this library.
+// Build first (`npm run build`), then run `node --test test/`, or just run `npm test`.
+
+const assert = require('assert');
+const { createHash } = require('crypto');
+const { describe, test } = require('node:test');
+const { Algorithm, ClientAuthenticate, ClientSetup, Groups, Profile, ServerAuthenticate } = require('../dist');
+const { computeK } = require('../dist/util/profile');
+
+const hex = (value) => value.replace(/\s/g, '').toLowerCase();
+const bytes = (value) => Uint8Array.from(Buffer.from(hex(value), 'hex'));
+const toHex = (value) => typeof value === 'bigint' ? value.toString(16) : Buffer.from(value).toString('hex');
+const sha1 = (...parts) => createHash('sha1').update(Buffer.concat(parts.map((part) => Buffer.from(part)))).digest();
+
+const username = 'alice';
+const password = 'password123';
+const group = Groups.b1024;
+const algorithm = Algorithm.SHA_1;
+
+const vectors = {
+    s: 'BEB25379 D1A8581E B5A72767 3A2441EE',
+    k: '7556AA04 5AEF2CDD 07ABAF0F 665C3E81 8913186F',
+    x: '94B7555A ABE9127C C58CCF49 93DB6CF8 4D16C124',
+    v: `7E273DE8 696FFC4F 4E337D05 B4B375BE B0DDE156 9E8FA00A 9886D812
+        9BADA1F1 822223CA 1A605B53 0E379BA4 729FDC59 F105B478 7E5186F5
+        C671085A 1447B52A 48CF1970 B4FB6F84 00BBF4CE BFBB1681 52E08AB5
+        EA53D15C 1AFF87B2 B9DA6E04 E058AD51 CC72BFC9 033B564E 26480D78
+        E955A5E2 9E7AB245 DB2BE315 E2099AFB`,
+    a: '60975527 035CF2AD 1989806F 0407210B C81EDC04 E2762A56 AFD529DD DA2D4393',
+    b: 'E487CB59 D31AC550 471E81F0 0F6928E0 1DDA08E9 74A004F4 9E61F5D1 05284D20',
+    A: `61D5E490 F6F1B795 47B0704C 436F523D D0E560F0 C64115BB 72557EC4
+        4352E890 3211C046 92272D8B 2D1A5358 A2CF1B6E 0BFCF99F 921530EC
+        8E393561 79EAE45E 42BA92AE ACED8251 71E1E8B9 AF6D9C03 E1327F44
+        BE087EF0 6530E69F 66615261 EEF54073 CA11CF58 58F0EDFD FE15EFEA
+        B349EF5D 76988A36 72FAC47B 0769447B`,
+    B: `BD0C6151 2C692C0C B6D041FA 01BB152D 4916A1E7 7AF46AE1 05393011
+        BAF38964 DC46A067 0DD125B9 5A981652 236F99D9 B681CBF8 7837EC99
+        6C6DA044 53728610 D0C6DDB5 8B318885 D7D82C7F 8DEB75CE 7BD4FBAA
+        37089E6F 9C6059F3 88838E7A 00030B33 1EB76840 910440B1 B27AAEAE
+        EB4012B7 D7665238 A8E3FB00 4B117B58`,
+    u: 'CE38B959 3487DA98 554ED47D 70A7AE5F 462EF019',
+    S: `B0DC82BA BCF30674 AE450C02 87745E79 90A3381F 63B387AA F271A10D
+        233861E3 59B48220 F7C4693C 9AE12B0A 6F67809F 0876E2D0 13800D6C
+        41BB59B6 D5979B5C 00A172B4 A2A5903A 0BDCAF8A 709585EB 2AFAFA8F
+        3499B200 210DCC1F 10EB3394 3CD67FC8 8A2F39A4 BE5BEC4E C0A3212D
+        C346D7E4 74B29EDE 8A469FFE CA686E5A`,
+};
+
+// K = H(S), M1 = H(H(N) XOR H(PAD(g)) | H(I) | s | A | B | K) and M2 = H(A | M1 | K)
+const N = bytes(group.N.toString(16));
+const g = new Uint8Array(N.length);
+g[g.length - 1] = Number(group.g);
+const K = sha1(bytes(vectors.S));
+const Hg = sha1(g);
+const HX = sha1(N).map((byte, i) => byte ^ Hg[i]);
+const M1 = sha1(HX, sha1(Buffer.from(username)), bytes(vectors.s), bytes(vectors.A), bytes(vectors.B), K);
+const M2 = sha1(bytes(vectors.A), M1, K);
+
+/**
+ * Returns a random source which replays `values` in order, and fails if more values are requested, or at the wrong length.
+ */
+function replay (...values) {
+    return (bits) => {
+        const value = values.shift();
+        assert.ok(value, `unexpected request for ${bits} random bits`);
+        assert.strictEqual(value.length, Math.ceil(bits / 8), `expected ${bits} random bits`);
+        return value;
+    };
+}
+
+describe('RFC 5054 known-answer tests', () => {
+    test('ClientSetup computes x and v', async () => {
+        const setup = new ClientSetup({ username, password, saltLength: 128, group, algorithm, profile: Profile.RFC5054, random: replay(bytes(vectors.s)) });
+        const result = await setup.init();
+
+        assert.strictEqual(result.encoded.s, hex(vectors.s));
+        assert.strictEqual(toHex(setup.x), hex(vectors.x));
+        assert.strictEqual(result.encoded.v, hex(vectors.v));
+    });
+
+    test('computeK computes k', async () => {
+        assert.strictEqual(toHex(await computeK(Profile.RFC5054, algorithm, group)), hex(vectors.k));
+    });
+
+    test('the client and server compute A, B, u, S, K, M1 and M2', async () => {
+        const client = new ClientAuthenticate({ username, password, group, algorithm, profile: Profile.RFC5054, random: replay(bytes(vectors.a)) });
+        const server = new ServerAuthenticate({ I: username, s: hex(vectors.s), v: hex(vectors.v), group, algorithm, profile: Profile.RFC5054, random: replay(bytes(vectors.b)) });
+
+        const init = await client.init();
+        assert.strictEqual(init.encoded.A, hex(vectors.A));
+
+        const challenge = await server.init(init.encoded.A);
+        assert.strictEqual(challenge.encoded.B, hex(vectors.B));
+        assert.strictEqual(toHex(server.u), hex(vectors.u));
+        assert.strictEqual(toHex(server.S), hex(vectors.S));
+        assert.strictEqual(toHex(server.K), toHex(K));
+
+        await client.exchange(challenge.encoded.B, challenge.encoded.s, challenge.kdf);
+        assert.strictEqual(toHex(client.u), hex(vectors.u));
+        assert.strictEqual(toHex(client.S), hex(vectors.S));
+        assert.strictEqual(toHex(client.K), toHex(K));
+
+        const proof = await client.authenticate();
+        assert.strictEqual(proof.encoded.M1, toHex(M1));
+
+        const verify = await server.authenticate(proof.encoded.M1);
+        assert.strictEqual(verify.encoded.M2, toHex(M2));
+
+        await client.verifyServer(verify.encoded.M2);
+    });
+
+    test('x and v are the same for the legacy profile', async () => {
+        const setup = new ClientSetup({ username, password, salt: bytes(vectors.s), group, algorithm, profile: Profile.Legacy });
+        const result = await setup.init();
+
+        assert.strictEqual(toHex(setup.x), hex(vectors.x));
+        assert.strictEqual(result.encoded.v, hex(vectors.v));
+    });
+
+    test('the context and channel binding are appended to M1 and M2', async () => {
+        const context = 'example.com login';
+        const channelBinding = bytes('0123456789abcdef');
+        const T = sha1(sha1(Buffer.from(context)), sha1(channelBinding));
+        const boundM1 = sha1(HX, sha1(Buffer.from(username)), bytes(vectors.s), bytes(vectors.A), bytes(vectors.B), K, T);
+        const boundM2 = sha1(bytes(vectors.A), boundM1, K, T);
+
+        const client = new ClientAuthenticate({ username, password, group, algorithm, profile: Profile.RFC5054, context, channelBinding, random: replay(bytes(vectors.a)) });
+        const server = new ServerAuthenticate({ I: username, s: hex(vectors.s), v: hex(vectors.v), group, algorithm, profile: Profile.RFC5054, context, channelBinding: toHex(channelBinding), random: replay(bytes(vectors.b)) });
+
+        const init = await client.init();
+        const challenge = await server.init(init.encoded.A);
+        await client.exchange(challenge.encoded.B, challenge.encoded.s, challenge.kdf);
+
+        const proof = await client.authenticate();
+        assert.strictEqual(proof.encoded.M1, toHex(boundM1));
+
+        const verify = await server.authenticate(proof.encoded.M1);
+        assert.strictEqual(verify.encoded.M2, toHex(boundM2));
+
+        await client.verifyServer(verify.encoded.M2);
+    });
+
+    test('a different channel binding fails with BAD_CLIENT_PROOF', async () => {
+        const client = new ClientAuthenticate({ username, password, group, algorithm, profile: Profile.RFC5054, channelBinding: 'aa' });
+        const server = new ServerAuthenticate({ I: username, s: hex(vectors.s), v: hex(vectors.v), group, algorithm, profile: Profile.RFC5054, channelBinding: 'bb' });
+
+        const init = await client.init();
+        const challenge = await server.init(init.encoded.A);
+        await client.exchange(challenge.encoded.B, challenge.encoded.s, challenge.kdf);
+        const proof = await client.authenticate();
+
+        await assert.rejects(server.authenticate(proof.encoded.M1), { code: 'BAD_CLIENT_PROOF' });
+    });
+
+    test('changing the random source changes a and b', async () => {
+        const client = new ClientAuthenticate({ username, password, group, algorithm, profile: Profile.RFC5054, random: replay(new Uint8Array(32).fill(1)) });
+        const server = new ServerAuthenticate({ I: username, s: hex(vectors.s), v: hex(vectors.v), group, algorithm, profile: Profile.RFC5054, random: replay(new Uint8Array(32).fill(2)) });
+
+        const init = await client.init();
+        const challenge = await server.init(init.encoded.A);
+        assert.notStrictEqual(init.encoded.A, hex(vectors.A));
+        assert.notStrictEqual(challenge.encoded.B, hex(vectors.B));
+
+        // the handshake still succeeds with any a and b
+        await client.exchange(challenge.encoded.B, challenge.encoded.s, challenge.kdf);
+        const proof = await client.authenticate();
+        const verify = await server.authenticate(proof.encoded.M1);
+        await client.verifyServer(verify.encoded.M2);
+    });
+});
@@ -0,0 +1,63 @@
+/*
+ * BSD 3-Clause License
+ * Copyright (c) 2024, Ollie Killean
+ * License: https://github.com/knokbak/srp-auth
+ */
+
+const assert = require('assert');
+const { describe, test } = require('node:test');
+const { Algorithm, decodeMessage, encodeBinaryMessage, encodeMessage, KDF, MessageType, Normalization } = require('../dist');
+
+const bytes = (...values) => new Uint8Array(values);
+
+const messages = [
+    { type: MessageType.Hello, I: 'alice', A: bytes(1, 2, 3) },
+    { type: MessageType.Challenge, s: bytes(4, 5), B: bytes(6, 7, 8), kdf: { kdf: KDF.None } },
+    { type: MessageType.Challenge, s: bytes(4, 5), B: bytes(6, 7, 8), kdf: { kdf: KDF.Argon2id, iterations: 2, memorySize: 19456, parallelism: 1 }, normalization: Normalization.PRECIS },
+    { type: MessageType.Challenge, s: bytes(4, 5), B: bytes(6, 7, 8), kdf: { kdf: KDF.Scrypt, costFactor: 131072, blockSize: 8, parallelism: 1 } },
+    { type: MessageType.Challenge, s: bytes(4, 5), B: bytes(6, 7, 8), kdf: { kdf: KDF.PBKDF2, iterations: 1000, algorithm: Algorithm.SHA_256 } },
+    { type: MessageType.Proof, M1: bytes(9, 10) },
+    { type: MessageType.Verify, M2: bytes(11, 12) },
+    { type: MessageType.Abort, code: 'BAD_CLIENT_PROOF' },
+];
+
+/**
+ * A JSON challenge, with `fields` replacing the valid ones.
+ */
+function challenge (fields) {
+    return JSON.stringify({ v: 1, type: 'challenge', s: '0405', B: '060708', kdf: { kdf: 'none' }, ...fields });
+}
+
+describe('handshake messages', () => {
+    test('every message round-trips through both encodings', () => {
+        for (const message of messages) {
+            assert.deepStrictEqual(decodeMessage(encodeMessage(message)), message);
+            assert.deepStrictEqual(decodeMessage(encodeBinaryMessage(message)), message);
+        }
+    });
+
+    test('unknown PBKDF2 algorithms are rejected by both encodings', () => {
+        assert.throws(() => decodeMessage(challenge({ kdf: { kdf: 'pbkdf2', iterations: 1000, algorithm: 'MD5' } })), { code: 'INVALID_MESSAGE', message: /unknown algorithm "MD5"/ });
+
+        const binary = encodeBinaryMessage({ ...messages[4], kdf: { kdf: KDF.PBKDF2, iterations: 1000, algorithm: 'MD5' } });
+        assert.throws(() => decodeMessage(binary), { code: 'INVALID_MESSAGE', message: /unknown algorithm "MD5"/ });
+    });
+
+    test('malformed messages are rejected', () => {
+        assert.throws(() => decodeMessage('{'), { code: 'INVALID_MESSAGE' });
+        assert.throws(() => decodeMessage(challenge({ v: 2 })), { code: 'INVALID_MESSAGE' });
+        assert.throws(() => decodeMessage(challenge({ type: 'unknown' })), { code: 'INVALID_MESSAGE' });
+        assert.throws(() => decodeMessage(challenge({ s: 'xyz' })), { code: 'INVALID_MESSAGE' });
+        assert.throws(() => decodeMessage(challenge({ normalization: 'nfc' })), { code: 'INVALID_MESSAGE' });
+        assert.throws(() => decodeMessage(challenge({ kdf: { kdf: 'pbkdf2', iterations: 0 } })), { code: 'INVALID_KDF' });
+
+        const binary = encodeBinaryMessage(messages[0]);
+        assert.throws(() => decodeMessage(binary.subarray(0, binary.length - 1)), { code: 'INVALID_MESSAGE' });
+        assert.throws(() => decodeMessage(new Uint8Array([...binary, 0])), { code: 'INVALID_MESSAGE' });
+        assert.throws(() => decodeMessage(new Uint8Array([2, ...binary.subarray(1)])), { code: 'INVALID_MESSAGE' });
+    });
+
+    test('unknown abort codes are still reported', () => {
+        assert.deepStrictEqual(decodeMessage(JSON.stringify({ v: 1, type: 'abort', code: 'SOMETHING_NEW' })), { type: MessageType.Abort, code: 'ABORTED' });
+    });
+});
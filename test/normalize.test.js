@@ -0,0 +1,96 @@
+/*
+ * BSD 3-Clause License
+ * Copyright (c) 2024, Ollie Killean
+ * License: https://github.com/knokbak/srp-auth
+ */
+
+const assert = require('assert');
+const { describe, test } = require('node:test');
+const { Algorithm, ClientAuthenticate, ClientSetup, Groups, Normalization, normalizeIdentity, normalizePassword, parseCredentials, serializeCredentials, ServerAuthenticate, ServerSetup, SRPPolicyError } = require('../dist');
+
+const group = Groups.b1024;
+const algorithm = Algorithm.SHA_256;
+const composed = 'caf\u00e9';
+const decomposed = 'cafe\u0301';
+
+/**
+ * Registers with one password, then logs in with another, letting the server send the normalisation.
+ */
+async function login (normalization, registered, entered, username = 'alice') {
+    const { I, encoded } = await new ClientSetup({ username, password: registered, group, algorithm, normalization }).init();
+    const client = new ClientAuthenticate({ username, password: entered, group, algorithm });
+    const server = new ServerAuthenticate({ I, s: encoded.s, v: encoded.v, group, algorithm, normalization });
+
+    const init = await client.init();
+    const challenge = await server.init(init.encoded.A);
+    await client.exchange(challenge.encoded.B, challenge.encoded.s, challenge.kdf, challenge.normalization);
+    const proof = await client.authenticate();
+    try {
+        await server.authenticate(proof.encoded.M1);
+        return true;
+    } catch (err) {
+        assert.strictEqual(err.code, 'BAD_CLIENT_PROOF');
+        return false;
+    }
+}
+
+describe('unicode normalisation', () => {
+    test('composed and decomposed passwords are the same once normalised', async () => {
+        assert.strictEqual(await login(Normalization.None, composed, decomposed), false);
+        for (const normalization of [Normalization.NFKC, Normalization.SASLprep, Normalization.PRECIS]) {
+            assert.strictEqual(await login(normalization, composed, decomposed), true, normalization);
+        }
+    });
+
+    test('the normalisation sent by the server replaces the configured one', async () => {
+        const client = new ClientAuthenticate({ username: 'ALICE', password: composed, group, algorithm });
+        assert.strictEqual(new TextDecoder().decode(client.I), 'ALICE');
+        const { encoded } = await new ClientSetup({ username: 'ALICE', password: composed, group, algorithm, normalization: Normalization.PRECIS }).init();
+
+        const server = new ServerAuthenticate({ I: 'alice', s: encoded.s, v: encoded.v, group, algorithm, normalization: Normalization.PRECIS });
+        const challenge = await server.init((await client.init()).encoded.A);
+        await client.exchange(challenge.encoded.B, challenge.encoded.s, challenge.kdf, challenge.normalization);
+        assert.strictEqual(new TextDecoder().decode(client.I), 'alice');
+
+        // the normalised identity and password can only be changed by exchange(...)
+        assert.strictEqual(Reflect.set(client, 'I', new TextEncoder().encode('mallory')), false);
+        assert.strictEqual(Reflect.set(client, 'p', new Uint8Array(0)), false);
+        assert.strictEqual(new TextDecoder().decode(client.I), 'alice');
+    });
+
+    test('PRECIS lowercases and width-maps the identity', async () => {
+        assert.strictEqual(normalizeIdentity('\uFF21lice', Normalization.PRECIS), 'alice');
+        assert.strictEqual(await login(Normalization.PRECIS, composed, composed, 'ALICE'), true);
+    });
+
+    test('SASLprep maps spaces and removes invisible characters', () => {
+        assert.strictEqual(normalizePassword('a\u00A0b\u00ADc', Normalization.SASLprep), 'a bc');
+        assert.strictEqual(normalizePassword('\u2168', Normalization.SASLprep), 'IX');
+    });
+
+    test('prohibited characters are rejected without revealing the password', () => {
+        assert.throws(() => normalizeIdentity('ali\u0007ce', Normalization.SASLprep), { code: 'PROHIBITED_CHARACTER', message: /U\+0007/ });
+        assert.throws(() => normalizeIdentity('alice\u2603', Normalization.PRECIS), { code: 'PROHIBITED_CHARACTER' });
+        assert.throws(() => normalizeIdentity(' alice', Normalization.PRECIS), { code: 'INVALID_INPUT' });
+        assert.throws(() => normalizePassword('pass\uE000word', Normalization.PRECIS), (err) => err.code === 'PROHIBITED_CHARACTER' && !err.message.includes('\uE000') && !err.message.includes('E000'));
+        assert.throws(() => normalizePassword('\u05D0a', Normalization.SASLprep), { code: 'PROHIBITED_CHARACTER' });
+        assert.throws(() => normalizePassword('', Normalization.PRECIS), { code: 'INVALID_INPUT' });
+    });
+
+    test('the normalisation is stored in credential records', async () => {
+        const { raw } = await new ClientSetup({ username: 'alice', password: composed, group, algorithm, normalization: Normalization.PRECIS }).init();
+        const record = serializeCredentials({ s: raw.s, v: raw.v, group: Groups.b2048, algorithm, normalization: Normalization.PRECIS });
+        assert.match(record, /,nm=precis\$/);
+        assert.strictEqual(parseCredentials(record).normalization, Normalization.PRECIS);
+        assert.doesNotMatch(serializeCredentials({ s: raw.s, v: raw.v, group: Groups.b2048, algorithm }), /nm=/);
+        assert.throws(() => parseCredentials(record.replace('nm=precis', 'nm=nfc')), { code: 'INVALID_RECORD' });
+    });
+
+    test('the server only accepts normalised identities', async () => {
+        const { encoded } = await new ClientSetup({ username: 'alice', password: composed, group, algorithm, normalization: Normalization.PRECIS }).init();
+        const config = { s: encoded.s, v: encoded.v, group, algorithm, normalization: Normalization.PRECIS };
+        await new ServerSetup({ ...config, I: 'alice' }).verify();
+        await assert.rejects(new ServerSetup({ ...config, I: 'Alice' }).verify(), (err) => err instanceof SRPPolicyError && err.violations[0].field === 'I');
+        await assert.rejects(new ServerSetup({ ...config, I: 'alice', policy: { normalizations: [Normalization.SASLprep] } }).verify(), (err) => err.violations[0].field === 'normalization');
+    });
+});
@@ -0,0 +1,85 @@
+/*
+ * BSD 3-Clause License
+ * Copyright (c) 2024, Ollie Killean
+ * License: https://github.com/knokbak/srp-auth
+ */
+
+const assert = require('assert');
+const { describe, test } = require('node:test');
+const { Algorithm, ClientSetup, Groups, KDF, ServerSetup, SRPPolicyError } = require('../dist');
+
+const username = 'alice';
+const group = Groups.b1024;
+const algorithm = Algorithm.SHA_256;
+
+async function setup (password, kdf) {
+    const { encoded } = await new ClientSetup({ username, password, group, algorithm, kdf }).init();
+    return { I: username, s: encoded.s, v: encoded.v, kdf, group, algorithm };
+}
+
+async function violations (config) {
+    try {
+        await new ServerSetup(config).verify();
+    } catch (err) {
+        assert.ok(err instanceof SRPPolicyError);
+        assert.strictEqual(err.code, 'POLICY_VIOLATION');
+        return err.violations.map((violation) => [violation.field, violation.code]);
+    }
+    return [];
+}
+
+describe('credential policies', () => {
+    test('credentials which meet the policy are accepted', async () => {
+        const credentials = await setup('correct horse battery staple');
+        const result = await new ServerSetup({ ...credentials, policy: { minGroupBits: 1024, algorithms: [algorithm], minSaltBits: 128, deniedPasswords: ['password123'] } }).verify();
+        assert.strictEqual(result.username, username);
+    });
+
+    test('every violation is reported at once', async () => {
+        const credentials = await setup('password123');
+        const policy = {
+            minGroupBits: 2048,
+            algorithms: [Algorithm.SHA3_512],
+            kdfs: [{ kdf: KDF.PBKDF2, iterations: 1000 }],
+            maxIdentityLength: 3,
+        };
+        assert.deepStrictEqual(await violations({ ...credentials, policy }), [
+            ['I', 'INVALID_INPUT'],
+            ['group', 'INVALID_GROUP'],
+            ['algorithm', 'INVALID_ALGORITHM'],
+            ['kdf', 'INVALID_KDF'],
+        ]);
+    });
+
+    test('denied passwords and the identity itself are rejected', async () => {
+        const policy = { deniedPasswords: ['123456', 'password123'] };
+        assert.deepStrictEqual(await violations({ ...await setup('password123'), policy }), [['v', 'WEAK_PASSWORD']]);
+        assert.deepStrictEqual(await violations({ ...await setup(username), policy }), [['v', 'WEAK_PASSWORD']]);
+    });
+
+    test('KDFs must meet the minimum cost', async () => {
+        const policy = { kdfs: [{ kdf: KDF.PBKDF2, iterations: 1000 }] };
+        assert.deepStrictEqual(await violations({ ...await setup('password123', { kdf: KDF.PBKDF2, iterations: 500 }), policy }), [['kdf', 'INVALID_KDF']]);
+        assert.deepStrictEqual(await violations({ ...await setup('password123', { kdf: KDF.PBKDF2, iterations: 1000 }), policy }), []);
+    });
+
+    test('KDFs over the maximum cost are rejected without running them', async () => {
+        const credentials = await setup('password123', { kdf: KDF.PBKDF2, iterations: 1000 });
+        const policy = { maxKDFs: [{ kdf: KDF.PBKDF2, iterations: 1000 }], deniedPasswords: ['password123'] };
+        assert.deepStrictEqual(await violations({ ...credentials, policy }), [['v', 'WEAK_PASSWORD']]);
+
+        // a huge cost would take far longer than the test if the denied password were stretched with it
+        const expensive = { ...credentials, kdf: { kdf: KDF.PBKDF2, iterations: 1e9 } };
+        assert.deepStrictEqual(await violations({ ...expensive, policy }), [['kdf', 'INVALID_KDF']]);
+        assert.deepStrictEqual(await violations({ ...expensive, policy: { deniedPasswords: ['password123'] } }), [['kdf', 'INVALID_KDF']]);
+        assert.deepStrictEqual(await violations({ ...credentials, kdf: { kdf: KDF.Argon2id, iterations: 1, memorySize: 1 << 30, parallelism: 1 } }), [['kdf', 'INVALID_KDF']]);
+    });
+
+    test('unsafe verifiers are always rejected', async () => {
+        const credentials = await setup('password123');
+        for (const v of ['01', group.N.toString(16), (group.N - 1n).toString(16)]) {
+            assert.deepStrictEqual(await violations({ ...credentials, v }), [['v', 'INVALID_VERIFIER']]);
+        }
+        assert.deepStrictEqual(await violations({ ...credentials, I: '', s: '00' }), [['I', 'INVALID_INPUT'], ['s', 'INVALID_SALT']]);
+    });
+});
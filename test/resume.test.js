@@ -0,0 +1,102 @@
+/*
+ * BSD 3-Clause License
+ * Copyright (c) 2024, Ollie Killean
+ * License: https://github.com/knokbak/srp-auth
+ */
+
+// Tests for resuming a session with a ticket, after a full handshake.
+// Build first (`npm run build`), then run `node --test test/`, or just run `npm test`.
+
+const assert = require('assert');
+const { randomBytes } = require('crypto');
+const { describe, test } = require('node:test');
+const { Algorithm, ClientAuthenticate, ClientResume, ClientSetup, Groups, MemoryReplayCache, ServerAuthenticate, ServerResume } = require('../dist');
+
+const username = 'alice';
+const password = 'password123';
+const group = Groups.b1024;
+const algorithm = Algorithm.SHA_256;
+
+function sealConfig () {
+    return { key: randomBytes(32), replayCache: new MemoryReplayCache() };
+}
+
+/**
+ * Runs a full handshake, and returns the first ticket and resumption secret.
+ */
+async function login (config) {
+    const { raw } = await new ClientSetup({ username, password, group, algorithm }).init();
+    const client = new ClientAuthenticate({ username, password, group, algorithm });
+    const server = new ServerAuthenticate({ I: username, s: raw.s, v: raw.v, group, algorithm });
+
+    const { encoded: { A } } = await client.init();
+    const { encoded: { B, s } } = await server.init(A);
+    await client.exchange(B, s);
+    const { encoded: { M1 } } = await client.authenticate();
+    const { encoded: { M2 } } = await server.authenticate(M1);
+    await client.verifyServer(M2);
+
+    const { encoded: { secret } } = await client.deriveResumptionSecret();
+    return { ticket: await server.createTicket(config), secret };
+}
+
+async function resume (config, ticket, secret, I = username) {
+    const client = new ClientResume({ username: I, ticket, secret });
+    const server = new ServerResume(config);
+
+    const init = await client.init();
+    const response = await server.authenticate(init.I, init.ticket, init.encoded.nonce, init.encoded.proof);
+    const result = await client.verifyServer(response.encoded.nonce, response.encoded.proof, response.ticket);
+    return { client, server, result };
+}
+
+describe('Session resumption', () => {
+    test('a ticket resumes the session, and both sides derive the same key', async () => {
+        const config = sealConfig();
+        const { ticket, secret } = await login(config);
+        const { client, server } = await resume(config, ticket, secret);
+
+        assert.strictEqual(server.I, username);
+        const clientChannel = await client.createChannel();
+        const serverChannel = await server.createChannel();
+        const message = await clientChannel.seal('hello');
+        assert.strictEqual(new TextDecoder().decode(await serverChannel.open(message)), 'hello');
+    });
+
+    test('the next ticket and secret can be used to resume again', async () => {
+        const config = sealConfig();
+        const first = await login(config);
+        const { result } = await resume(config, first.ticket, first.secret);
+
+        assert.notStrictEqual(result.encoded.secret, first.secret);
+        await resume(config, result.ticket, result.encoded.secret);
+    });
+
+    test('a ticket can only be used once', async () => {
+        const config = sealConfig();
+        const { ticket, secret } = await login(config);
+        await resume(config, ticket, secret);
+
+        await assert.rejects(resume(config, ticket, secret), { code: 'REPLAYED' });
+    });
+
+    test('a ticket is bound to its identity', async () => {
+        const config = sealConfig();
+        const { ticket, secret } = await login(config);
+
+        await assert.rejects(resume(config, ticket, secret, 'mallory'), { code: 'INVALID_INPUT' });
+    });
+
+    test('the wrong secret fails with BAD_CLIENT_PROOF', async () => {
+        const config = sealConfig();
+        const { ticket } = await login(config);
+
+        await assert.rejects(resume(config, ticket, randomBytes(32)), { code: 'BAD_CLIENT_PROOF' });
+    });
+
+    test('a ticket sealed with another key is rejected', async () => {
+        const { ticket, secret } = await login(sealConfig());
+
+        await assert.rejects(resume(sealConfig(), ticket, secret), { code: 'DECRYPTION_FAILED' });
+    });
+});
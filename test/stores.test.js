@@ -0,0 +1,54 @@
+/*
+ * BSD 3-Clause License
+ * Copyright (c) 2024, Ollie Killean
+ * License: https://github.com/knokbak/srp-auth
+ */
+
+// Runs the VerifierStore conformance suite against the built-in stores.
+// Build first (`npm run build`), then run `node --test test/`, or just run `npm test`.
+
+const assert = require('assert');
+const { mkdtempSync, promises, readdirSync, rmSync } = require('fs');
+const { tmpdir } = require('os');
+const { join } = require('path');
+const { after, describe, test } = require('node:test');
+const { Algorithm, FileVerifierStore, Groups, KDFPresets, MemoryVerifierStore, Profile, verifierStoreTests } = require('../dist');
+
+describe('MemoryVerifierStore', () => {
+    for (const { name, run } of verifierStoreTests(() => new MemoryVerifierStore())) {
+        test(name, run);
+    }
+});
+
+describe('FileVerifierStore', () => {
+    const dir = mkdtempSync(join(tmpdir(), 'srp-auth-'));
+    let count = 0;
+
+    after(() => rmSync(dir, { recursive: true, force: true }));
+
+    for (const { name, run } of verifierStoreTests(() => new FileVerifierStore(join(dir, `${count++}.json`)))) {
+        test(name, run);
+    }
+
+    test('a failed write does not leave a temporary file behind', async () => {
+        const failing = mkdtempSync(join(dir, 'failing-'));
+        const store = new FileVerifierStore(join(failing, 'users.json'));
+        const record = { s: new Uint8Array(24).fill(1), v: new Uint8Array([2]), group: Groups.b2048, algorithm: Algorithm.SHA_256, profile: Profile.Legacy, kdf: KDFPresets.none };
+
+        // simulate a full disk
+        const open = promises.open;
+        promises.open = async (...args) => {
+            const handle = await open(...args);
+            handle.writeFile = async () => {
+                throw Object.assign(new Error('no space left on device'), { code: 'ENOSPC' });
+            };
+            return handle;
+        };
+        try {
+            await assert.rejects(store.put('alice', record), { code: 'ENOSPC' });
+        } finally {
+            promises.open = open;
+        }
+        assert.deepStrictEqual(readdirSync(failing), []);
+    });
+});
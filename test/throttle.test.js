@@ -0,0 +1,71 @@
+/*
+ * BSD 3-Clause License
+ * Copyright (c) 2024, Ollie Killean
+ * License: https://github.com/knokbak/srp-auth
+ */
+
+const assert = require('assert');
+const { describe, test } = require('node:test');
+const { Algorithm, ClientAuthenticate, ClientSetup, Groups, MemoryThrottleStore, ServerAuthenticate, Throttle } = require('../dist');
+
+const username = 'alice';
+const password = 'password123';
+const group = Groups.b1024;
+const algorithm = Algorithm.SHA_256;
+
+/**
+ * Runs handshakes up to the client computing M1, and returns each side.
+ */
+async function handshakes (count, throttle, clientPassword = password) {
+    const { raw } = await new ClientSetup({ username, password, group, algorithm }).init();
+    const results = [];
+    for (let i = 0; i < count; i++) {
+        const client = new ClientAuthenticate({ username, password: clientPassword, group, algorithm });
+        const server = new ServerAuthenticate({ I: username, s: raw.s, v: raw.v, group, algorithm, throttle, clientKey: '192.0.2.1' });
+
+        const { encoded: { A } } = await client.init();
+        const challenge = await server.init(A);
+        await client.exchange(challenge.encoded.B, challenge.encoded.s);
+        const { encoded: { M1 } } = await client.authenticate();
+        results.push({ server, M1 });
+    }
+    return results;
+}
+
+describe('Throttle', () => {
+    test('parallel attempts cannot get past maxAttempts', async () => {
+        const store = new MemoryThrottleStore();
+        const lockouts = [];
+        const throttle = new Throttle({ identity: { maxAttempts: 3 }, store, onLockout: (type, key) => lockouts.push([type, key]) });
+
+        const results = await Promise.allSettled((await handshakes(8, throttle, 'wrong password')).map(({ server, M1 }) => server.authenticate(M1)));
+        const codes = results.map((result) => result.reason.code);
+        assert.strictEqual(codes.filter((code) => code === 'BAD_CLIENT_PROOF').length, 3);
+        assert.ok(codes.every((code) => ['BAD_CLIENT_PROOF', 'LOCKED_OUT', 'THROTTLED'].includes(code)), codes.join());
+
+        assert.strictEqual(store.get(`identity:${username}`).failures, 3);
+        assert.deepStrictEqual(lockouts, [['identity', username]]);
+        await assert.rejects(throttle.check(username), { code: 'LOCKED_OUT' });
+    });
+
+    test('successful attempts are not counted against the client', async () => {
+        const throttle = new Throttle({ client: { maxAttempts: 1 } });
+        for (const { server, M1 } of await handshakes(3, throttle)) {
+            await server.authenticate(M1);
+        }
+        await throttle.check(username, '192.0.2.1');
+    });
+
+    test('a successful attempt forgets the identity\'s failures', async () => {
+        const store = new MemoryThrottleStore();
+        const throttle = new Throttle({ identity: { backoff: 0 }, client: { backoff: 0 }, store });
+        const [failed] = await handshakes(1, throttle, 'wrong password');
+        await assert.rejects(failed.server.authenticate(failed.M1), { code: 'BAD_CLIENT_PROOF' });
+        assert.strictEqual(store.get(`identity:${username}`).failures, 1);
+
+        const [succeeded] = await handshakes(1, throttle);
+        await succeeded.server.authenticate(succeeded.M1);
+        assert.strictEqual(store.get(`identity:${username}`), undefined);
+        assert.strictEqual(store.get('client:192.0.2.1').failures, 1);
+    });
+});
@@ -0,0 +1,127 @@
+/*
+ * BSD 3-Clause License
+ * Copyright (c) 2024, Ollie Killean
+ * License: https://github.com/knokbak/srp-auth
+ */
+
+const assert = require('assert');
+const { createServer } = require('http');
+const { describe, test } = require('node:test');
+const { Algorithm, ClientAuthenticate, ClientSetup, createHTTPHandler, Groups, HTTPClient, KDF, KDFPresets, MemoryVerifierStore, Profile, ServerAuthenticate } = require('../dist');
+
+const username = 'alice';
+const password = 'password123';
+const policy = { group: Groups.b2048, algorithm: Algorithm.SHA_512, profile: Profile.RFC5054, kdf: { kdf: KDF.PBKDF2, iterations: 1000, algorithm: Algorithm.SHA_256 } };
+
+async function register (store) {
+    const { raw } = await new ClientSetup({ username, password, group: Groups.b1024, algorithm: Algorithm.SHA_256 }).init();
+    await store.put(username, { s: raw.s, v: raw.v, group: Groups.b1024, algorithm: Algorithm.SHA_256, profile: Profile.Legacy, kdf: KDFPresets.none });
+}
+
+/**
+ * Logs in with the stored parameters, sending upgraded credentials with M1 if the server asks for them.
+ */
+async function login (store, upgrade = policy) {
+    const stored = await store.get(username);
+    const client = new ClientAuthenticate({ username, password, group: stored.group, algorithm: stored.algorithm, profile: stored.profile });
+    const server = await ServerAuthenticate.fromStore(store, username, { upgrade });
+
+    const init = await client.init();
+    const challenge = await server.init(init.encoded.A);
+    await client.exchange(challenge.encoded.B, challenge.encoded.s, challenge.kdf);
+    const proof = await client.authenticate();
+    const payload = challenge.upgrade && (await client.upgrade(challenge.upgrade)).encoded.payload;
+
+    const verify = await server.authenticate(proof.encoded.M1);
+    await client.verifyServer(verify.encoded.M2);
+    return { client, server, challenge, payload };
+}
+
+/**
+ * Logs in through `createHTTPHandler(...)` and `HTTPClient`, with the handler listening on a random local port.
+ */
+async function loginOverHTTP (store) {
+    const server = createServer(createHTTPHandler({ store, group: Groups.b1024, algorithm: Algorithm.SHA_256, upgrade: policy, session: () => 'session' }));
+    await new Promise((resolve) => server.listen(0, '127.0.0.1', resolve));
+    try {
+        const client = new HTTPClient({ url: `http://127.0.0.1:${server.address().port}/srp` });
+        return await client.login({ username, password, group: Groups.b1024, algorithm: Algorithm.SHA_256 });
+    } finally {
+        server.close();
+    }
+}
+
+describe('verifier upgrades', () => {
+    test('outdated credentials are replaced on a successful login', async () => {
+        const store = new MemoryVerifierStore();
+        await register(store);
+
+        const { server, challenge, payload } = await login(store);
+        assert.ok(challenge.upgrade);
+        await server.upgrade(payload, store);
+
+        const stored = await store.get(username);
+        assert.strictEqual(stored.version, 2);
+        assert.strictEqual(stored.group.N, policy.group.N);
+        assert.strictEqual(stored.algorithm, policy.algorithm);
+        assert.strictEqual(stored.profile, policy.profile);
+        assert.deepStrictEqual(stored.kdf, policy.kdf);
+
+        // the same password works with the new parameters, and no further upgrade is requested
+        const next = await login(store);
+        assert.strictEqual(next.challenge.upgrade, undefined);
+    });
+
+    test('credentials which match the policy are not upgraded', async () => {
+        const store = new MemoryVerifierStore();
+        await register(store);
+
+        const { server, challenge } = await login(store, { group: Groups.b1024, algorithm: Algorithm.SHA_256 });
+        assert.strictEqual(challenge.upgrade, undefined);
+        await assert.rejects(server.upgrade('00', store), { code: 'INVALID_INPUT' });
+    });
+
+    test('credentials which do not match the policy are rejected', async () => {
+        const store = new MemoryVerifierStore();
+        await register(store);
+
+        const { client, server, challenge } = await login(store);
+        const { encoded } = await client.upgrade({ ...challenge.upgrade, algorithm: Algorithm.SHA_1 });
+        await assert.rejects(server.upgrade(encoded.payload, store), { code: 'INVALID_INPUT' });
+        assert.strictEqual((await store.get(username)).version, 1);
+    });
+
+    test('a password changed during the handshake is not overwritten', async () => {
+        const store = new MemoryVerifierStore();
+        await register(store);
+
+        const { server, payload } = await login(store);
+        const { raw } = await new ClientSetup({ username, password: 'new password', group: Groups.b1024, algorithm: Algorithm.SHA_256 }).init();
+        const stored = await store.get(username);
+        await store.update(username, { ...stored, s: raw.s, v: raw.v }, stored.version);
+
+        await assert.rejects(server.upgrade(payload, store), { code: 'CONFLICT' });
+        assert.strictEqual((await store.get(username)).version, 2);
+    });
+
+    test('a rejected upgrade over HTTP still logs the user in', async () => {
+        const store = new MemoryVerifierStore();
+        await register(store);
+        const update = store.update.bind(store);
+        store.update = async (I, record, version) => update(I, record, version - 1);
+
+        const { session, upgraded } = await loginOverHTTP(store);
+        assert.strictEqual(session, 'session');
+        assert.strictEqual(upgraded, undefined);
+    });
+
+    test('a store error during an upgrade over HTTP is not hidden', async () => {
+        const store = new MemoryVerifierStore();
+        await register(store);
+        store.update = async () => {
+            throw new Error('The store is unavailable');
+        };
+
+        await assert.rejects(loginOverHTTP(store));
+    });
+});